@@ -0,0 +1,23 @@
+import { readExport } from '@/lib/raster-export';
+
+// Downloads for files written by lm_raster_export: /exports/{file}. Names are random and expire after a day
+
+export async function GET(_request: Request, { params }: { params: Promise<{ file: string }> }) {
+  const { file } = await params;
+  const stored = await readExport(file);
+  if (!stored) {
+    return Response.json(
+      { error: true, code: 'NOT_FOUND', message: 'Export not found. It may have expired — run the export again' },
+      { status: 404 },
+    );
+  }
+
+  return new Response(new Uint8Array(stored.body), {
+    headers: {
+      'Content-Type': stored.contentType,
+      'Content-Disposition': `attachment; filename="${file}"`,
+      'Cache-Control': 'private, max-age=3600',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
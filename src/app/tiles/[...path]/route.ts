@@ -0,0 +1,87 @@
+import { lantmaterietClient, type WmtsLayer } from '@/clients/lantmateriet-client';
+import { validateBbox, type BoundingBox } from '@/lib/coordinates';
+import { McpToolError, NotFoundError, UpstreamApiError, ValidationError } from '@/lib/errors';
+import { getCachedTile, putCachedTile, TILE_TTL_MS } from '@/lib/tile-cache';
+import { PROPERTY_WMS_LAYER } from '@/lib/tile-proxy';
+
+// Tile proxy so map URLs from lm_map_url work in browsers and clients that cannot authenticate:
+//   /tiles/{topowebb|orto}/{z}/{y}/{x}.png
+//   /tiles/fastighetsindelning?bbox=minX,minY,maxX,maxY&width=256&height=256  (SWEREF99 TM)
+
+const MAX_WMS_PIXELS = 2048;
+
+type Upstream = { url: string; authenticated: boolean };
+
+function resolveUpstream(path: string[], searchParams: URLSearchParams): Upstream {
+  const [layer, ...rest] = path;
+
+  if (layer === PROPERTY_WMS_LAYER && rest.length === 0) {
+    const values = (searchParams.get('bbox') || '').split(',').map(Number);
+    if (values.length !== 4 || values.some((v) => !Number.isFinite(v))) {
+      throw new ValidationError('bbox must be minX,minY,maxX,maxY in SWEREF99 TM', 'bbox');
+    }
+    const [minX, minY, maxX, maxY] = values;
+    const bbox: BoundingBox = { minX, minY, maxX, maxY };
+    validateBbox(bbox);
+
+    const width = Number(searchParams.get('width') || 256);
+    const height = Number(searchParams.get('height') || 256);
+    if (![width, height].every((v) => Number.isInteger(v) && v > 0 && v <= MAX_WMS_PIXELS)) {
+      throw new ValidationError(`width and height must be whole pixels between 1 and ${MAX_WMS_PIXELS}`, 'size');
+    }
+    return { url: lantmaterietClient.getPropertyMapUrl(bbox, { width, height }).url, authenticated: true };
+  }
+
+  const match = rest.length === 3 ? /^(\d+)\.png$/.exec(rest[2]) : null;
+  if (!match) {
+    throw new NotFoundError('Tile route', `/${path.join('/')}`);
+  }
+  const url = lantmaterietClient.getMapTileUrl(layer as WmtsLayer, Number(rest[0]), Number(rest[1]), Number(match[1]));
+  return { url, authenticated: false };
+}
+
+function errorStatus(error: unknown): number {
+  if (error instanceof ValidationError) return 400;
+  if (error instanceof NotFoundError) return 404;
+  if (error instanceof UpstreamApiError) return 502;
+  return 500;
+}
+
+export async function GET(request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  try {
+    const { path } = await params;
+    const { url, authenticated } = resolveUpstream(path, new URL(request.url).searchParams);
+
+    let tile = await getCachedTile(url);
+    const cacheStatus = tile ? 'HIT' : 'MISS';
+    if (!tile) {
+      const body = await lantmaterietClient.fetchMapImage(url, { authenticated });
+      if (!body) {
+        return new Response(null, { status: 404 });
+      }
+      tile = await putCachedTile(url, body, 'image/png');
+    }
+
+    const headers = {
+      'ETag': tile.etag,
+      'Cache-Control': `public, max-age=${TILE_TTL_MS / 1000}`,
+      'X-Cache': cacheStatus,
+      'Access-Control-Allow-Origin': '*',
+    };
+    if (request.headers.get('if-none-match') === tile.etag) {
+      return new Response(null, { status: 304, headers });
+    }
+    return new Response(new Uint8Array(tile.body), { headers: { ...headers, 'Content-Type': tile.contentType } });
+  } catch (error) {
+    console.error('Tile proxy error:', error);
+    const isToolError = error instanceof McpToolError;
+    return Response.json(
+      {
+        error: true,
+        code: isToolError ? error.code : 'INTERNAL_ERROR',
+        message: isToolError ? error.message : 'Could not load the map tile',
+      },
+      { status: errorStatus(error) },
+    );
+  }
+}
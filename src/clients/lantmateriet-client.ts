@@ -1,15 +1,34 @@
 import { getAccessToken, hasCredentials } from '@/lib/auth';
-import { UpstreamApiError, NotFoundError, ConfigurationError } from '@/lib/errors';
+import { UpstreamApiError, NotFoundError, ConfigurationError, ValidationError } from '@/lib/errors';
 import type {
   PropertyInfo,
   PropertySearchResult,
+  PropertyGeometrySearchResult,
   ElevationResult,
   MapUrlResult,
+  MapTile,
   AddressResult,
+  StacCollection,
+  StacItem,
+  StacItemPage,
+  StacSearchPage,
   StacSearchResponse,
   StacSearchResultItem,
+  StacSortBy,
+  GeoJsonGeometry,
+  BuildingInfo,
+  BuildingSearchResult,
+  PlaceNameResult,
+  AdministrativeUnit,
+  AdministrativeUnits,
+  AdministrativeUnitType,
+  LandCoverFeature,
+  WaterFeature,
 } from '@/types/lantmateriet';
 import { Sweref99Point, BoundingBox, CRS_SWEREF99TM } from '@/lib/coordinates';
+import { readMosaic, type RasterGrid } from '@/lib/raster';
+import { decodeStacCursor, encodeStacCursor, incompleteCoverageNote } from '@/lib/stac';
+import { chooseZoom, tileCount, tileRange, tileResolution, tilesInRange, TILE_MATRIX_SET } from '@/lib/wmts';
 
 const API_BASE_URL = process.env.LANTMATERIET_API_URL || 'https://api.lantmateriet.se';
 
@@ -17,12 +36,79 @@ const API_BASE_URL = process.env.LANTMATERIET_API_URL || 'https://api.lantmateri
 const OPEN_TOPOWEBB_WMTS = 'https://api.lantmateriet.se/open/topowebb-ccby/v1/wmts/1.0.0';
 const OPEN_ORTOFOTO_WMTS = 'https://api.lantmateriet.se/open/ortofoto/v1/wmts/1.0.0';
 
+// Deepest tile matrix each open layer serves; the CC-BY topographic map stops at 8 m/px
+const WMTS_LAYERS = {
+  topowebb: { baseUrl: OPEN_TOPOWEBB_WMTS, maxZoom: 9 },
+  orto: { baseUrl: OPEN_ORTOFOTO_WMTS, maxZoom: 13 },
+} as const;
+export type WmtsLayer = keyof typeof WMTS_LAYERS;
+
+// Bounds one map request; at 256 px per tile this is up to a 2048 x 2048 px mosaic
+const MAX_MAP_TILES = 64;
+// Automatic zoom aims for about this many pixels along the longer side
+const AUTO_ZOOM_PIXELS = 1024;
+
 // WMS endpoints for property boundaries
 const PROPERTY_WMS = 'https://api.lantmateriet.se/open/fastighet/v1/wms';
 
+// Property geometry searches: upstream page size, and how many properties one search reads at most
+const PROPERTY_PAGE_SIZE = 500;
+const MAX_GEOMETRY_SEARCH_RESULTS = 5_000;
+
 // STAC API endpoints (free, CC-BY 4.0)
 const STAC_ORTO_URL = 'https://api.lantmateriet.se/stac-orto/v1';
 const STAC_HOJD_URL = 'https://api.lantmateriet.se/stac-hojd/v1';
+// Largest page the STAC API serves
+const STAC_PAGE_SIZE = 100;
+// Bounds the COG reads of one raster request; tiles beyond it are the oldest and are left out
+const MAX_RASTER_TILES = 50;
+const NEWEST_FIRST: StacSortBy[] = [{ field: 'properties.datetime', direction: 'desc' }];
+
+function wmtsTileUrl(layer: WmtsLayer, zoom: number, row: number, col: number): string {
+  return `${WMTS_LAYERS[layer].baseUrl}/${layer}/default/${TILE_MATRIX_SET}/${zoom}/${row}/${col}.png`;
+}
+
+// Resolves a center point and ground size (meters) to the tiles of the 3006 matrix set that cover it
+function buildWmtsMap(
+  layer: WmtsLayer,
+  point: Sweref99Point,
+  options: { width?: number; height?: number; zoom?: number },
+): MapUrlResult {
+  const { width = 1000, height = 1000 } = options;
+  const { maxZoom } = WMTS_LAYERS[layer];
+
+  const bbox: BoundingBox = {
+    minX: point.x - width / 2,
+    minY: point.y - height / 2,
+    maxX: point.x + width / 2,
+    maxY: point.y + height / 2,
+  };
+
+  const zoom =
+    options.zoom === undefined
+      ? chooseZoom(bbox, AUTO_ZOOM_PIXELS, maxZoom)
+      : Math.max(0, Math.min(maxZoom, Math.round(options.zoom)));
+  const range = tileRange(bbox, zoom);
+  if (tileCount(range) > MAX_MAP_TILES) {
+    throw new ValidationError(
+      `Zoom level ${zoom} needs ${tileCount(range)} tiles for this area (max ${MAX_MAP_TILES}). Use a lower zoom or a smaller area.`,
+      'zoom',
+    );
+  }
+
+  return {
+    url: `${WMTS_LAYERS[layer].baseUrl}/${layer}/default/${TILE_MATRIX_SET}/{z}/{y}/{x}.png`,
+    layers: [layer],
+    crs: CRS_SWEREF99TM,
+    bbox,
+    tileMatrixSet: TILE_MATRIX_SET,
+    zoom,
+    maxZoom,
+    resolution: tileResolution(zoom),
+    tileRange: range,
+    tiles: tilesInRange(range).map((tile): MapTile => ({ ...tile, url: wmtsTileUrl(layer, tile.zoom, tile.row, tile.col) })),
+  };
+}
 
 async function authenticatedFetch<T>(url: string, options: RequestInit = {}): Promise<T> {
   const token = await getAccessToken();
@@ -49,41 +135,198 @@ async function authenticatedFetch<T>(url: string, options: RequestInit = {}): Pr
   return response.json() as Promise<T>;
 }
 
+function requireCredentials(): void {
+  if (!hasCredentials()) {
+    throw new ConfigurationError(
+      'Lantmäteriet API credentials required. Set LANTMATERIET_CONSUMER_KEY and ' +
+        'LANTMATERIET_CONSUMER_SECRET environment variables. Register at https://geotorget.lantmateriet.se/',
+      'LANTMATERIET_CONSUMER_KEY, LANTMATERIET_CONSUMER_SECRET',
+    );
+  }
+}
+
+function bboxToWktPolygon(bbox: BoundingBox): string {
+  const { minX, minY, maxX, maxY } = bbox;
+  return `POLYGON((${minX} ${minY},${maxX} ${minY},${maxX} ${maxY},${minX} ${maxY},${minX} ${minY}))`;
+}
+
+type PropertyFeature = {
+  properties: {
+    objektidentitet: string;
+    beteckning: string;
+    kommun?: string;
+    lan?: string;
+    area?: number;
+  };
+  geometry?: GeoJsonGeometry;
+};
+
+// OGC API Features response; numberMatched and links are only there when the service pages
+type PropertyFeatureCollection = {
+  features?: PropertyFeature[];
+  numberMatched?: number;
+  links?: Array<{ rel: string; href: string }>;
+};
+
+function toPropertyInfo(f: PropertyFeature): PropertyInfo {
+  return {
+    objektidentitet: f.properties.objektidentitet,
+    beteckning: f.properties.beteckning,
+    kommun: f.properties.kommun || '',
+    lan: f.properties.lan || '',
+    area: f.properties.area,
+    geometry: f.geometry,
+  };
+}
+
+// GeoJSON to WKT for the geometri query parameter
+function geometryToWkt(geometry: GeoJsonGeometry): string {
+  const ring = (positions: number[][]) => `(${positions.map(([x, y]) => `${x} ${y}`).join(',')})`;
+  switch (geometry.type) {
+    case 'Point': {
+      const [x, y] = geometry.coordinates as number[];
+      return `POINT(${x} ${y})`;
+    }
+    case 'LineString':
+      return `LINESTRING${ring(geometry.coordinates as number[][])}`;
+    case 'Polygon':
+      return `POLYGON(${(geometry.coordinates as number[][][]).map(ring).join(',')})`;
+    case 'MultiPolygon':
+      return `MULTIPOLYGON(${(geometry.coordinates as number[][][][]).map((p) => `(${p.map(ring).join(',')})`).join(',')})`;
+  }
+}
+
+type PlaceNameFeature = {
+  properties: {
+    namn: string;
+    objekttyp?: string;
+    kommun?: string;
+    lan?: string;
+  };
+  geometry?: {
+    coordinates: number[];
+  };
+};
+
+function toPlaceNameResult(f: PlaceNameFeature): PlaceNameResult | null {
+  if (!f.geometry?.coordinates) return null;
+  const [x, y] = f.geometry.coordinates;
+  return {
+    namn: f.properties.namn,
+    objekttyp: f.properties.objekttyp || '',
+    kommun: f.properties.kommun || '',
+    lan: f.properties.lan || '',
+    coordinate: { x, y, crs: CRS_SWEREF99TM },
+  };
+}
+
+type AddressFeature = {
+  properties: Partial<AddressResult>;
+  geometry?: {
+    coordinates: number[];
+  };
+};
+
+function toAddressResult(f: AddressFeature): AddressResult {
+  const coordinates = f.geometry?.coordinates;
+  return {
+    adress: f.properties.adress || '',
+    postnummer: f.properties.postnummer || '',
+    postort: f.properties.postort || '',
+    kommun: f.properties.kommun || '',
+    lan: f.properties.lan || '',
+    koordinat: coordinates ? { x: coordinates[0], y: coordinates[1], crs: CRS_SWEREF99TM } : undefined,
+  };
+}
+
+type AdministrativeUnitFeature = {
+  properties: {
+    namn: string;
+    kod: string;
+  };
+  geometry?: GeoJsonGeometry;
+};
+
+function toAdministrativeUnit(type: AdministrativeUnitType, f: AdministrativeUnitFeature): AdministrativeUnit {
+  return { type, namn: f.properties.namn, kod: f.properties.kod, geometry: f.geometry };
+}
+
+// "114 35", "11435" and "114-35" all refer to the same postal code
+function normalizePostnummer(postnummer: string): string {
+  return postnummer.replace(/\D/g, '');
+}
+
+export type BuildingQuery = { point: Sweref99Point } | { bbox: BoundingBox } | { objektidentitet: string };
+export type LandCoverQuery = { point: Sweref99Point } | { bbox: BoundingBox };
+
+export type StacQuery = {
+  bbox?: BoundingBox;
+  ids?: string[]; // Item ids, for fetching known items
+  collection: 'ortofoto' | 'hojd';
+  limit?: number;
+  datetime?: string; // RFC 3339 instant or interval, e.g. "2023-01-01T00:00:00Z/.."
+  filter?: string; // CQL2 text
+  sortby?: StacSortBy[];
+  cursor?: string; // nextCursor from the previous page
+};
+
+function stacBaseUrl(collection: 'ortofoto' | 'hojd'): string {
+  return collection === 'ortofoto' ? STAC_ORTO_URL : STAC_HOJD_URL;
+}
+
+// STAC API may require authentication for some endpoints; open endpoints work without
+async function stacFetch<T>(url: string, method: 'GET' | 'POST', body?: Record<string, unknown>): Promise<T> {
+  const headers: Record<string, string> = { Accept: 'application/geo+json' };
+  if (hasCredentials()) {
+    headers.Authorization = `Bearer ${await getAccessToken()}`;
+  }
+  if (body) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const response = await fetch(url, { method, headers, body: body ? JSON.stringify(body) : undefined });
+
+  if (!response.ok) {
+    const msg =
+      response.status >= 500
+        ? `The data service returned an error (HTTP ${response.status}). This is usually temporary — try again.`
+        : `The data service rejected the request (HTTP ${response.status}). The query parameters may be invalid.`;
+    throw new UpstreamApiError(msg, response.status, 'Lantmäteriet STAC');
+  }
+
+  return response.json() as Promise<T>;
+}
+
+function toStacResultItem(item: StacItem): StacSearchResultItem {
+  const bands = item.properties['eo:bands']?.map((b) => b.common_name || b.name) || [];
+
+  const dataAsset = item.assets['data'] || item.assets['visual'] || Object.values(item.assets)[0];
+  const thumbnailAsset = item.assets['thumbnail'] || item.assets['preview'];
+
+  return {
+    id: item.id,
+    datetime: item.properties.datetime,
+    bbox: item.bbox,
+    resolution: item.properties.resolution,
+    bands: bands.length > 0 ? bands : undefined,
+    downloadUrl: dataAsset?.href,
+    thumbnailUrl: thumbnailAsset?.href,
+  };
+}
+
 export const lantmaterietClient = {
   isAuthConfigured(): boolean {
     return hasCredentials();
   },
 
   async findPropertyByPoint(point: Sweref99Point): Promise<PropertySearchResult> {
-    if (!hasCredentials()) {
-      throw new ConfigurationError(
-        'Lantmäteriet API credentials required. Set LANTMATERIET_CONSUMER_KEY and ' +
-          'LANTMATERIET_CONSUMER_SECRET environment variables. Register at https://geotorget.lantmateriet.se/',
-        'LANTMATERIET_CONSUMER_KEY, LANTMATERIET_CONSUMER_SECRET',
-      );
-    }
+    requireCredentials();
 
     const url = `${API_BASE_URL}/fastighetsindelning/v1/hitta?geometri=POINT(${point.x} ${point.y})`;
 
     try {
-      const response = await authenticatedFetch<{
-        features?: Array<{
-          properties: {
-            objektidentitet: string;
-            beteckning: string;
-            kommun?: string;
-            lan?: string;
-          };
-          geometry?: object;
-        }>;
-      }>(url);
-
-      const properties: PropertyInfo[] = (response.features || []).map((f) => ({
-        objektidentitet: f.properties.objektidentitet,
-        beteckning: f.properties.beteckning,
-        kommun: f.properties.kommun || '',
-        lan: f.properties.lan || '',
-      }));
+      const response = await authenticatedFetch<{ features?: PropertyFeature[] }>(url);
+      const properties = (response.features || []).map(toPropertyInfo);
 
       return {
         properties,
@@ -97,100 +340,417 @@ export const lantmaterietClient = {
     }
   },
 
-  // Geocodes via Adress API, then looks up property by resulting coordinate
+  // Geocodes via Adress API, then looks up property at the best-ranked address
   async findPropertyByAddress(address: string): Promise<PropertySearchResult> {
-    if (!hasCredentials()) {
-      throw new ConfigurationError(
-        'Lantmäteriet API credentials required. Set LANTMATERIET_CONSUMER_KEY and ' +
-          'LANTMATERIET_CONSUMER_SECRET environment variables. Register at https://geotorget.lantmateriet.se/',
-        'LANTMATERIET_CONSUMER_KEY, LANTMATERIET_CONSUMER_SECRET',
+    const candidates = await this.searchAddresses(address);
+
+    const bestMatch = candidates[0];
+    if (!bestMatch?.koordinat) {
+      return { properties: [], totalCount: 0 };
+    }
+
+    const result = await this.findPropertyByPoint(bestMatch.koordinat);
+    return {
+      ...result,
+      matchedAddress: bestMatch,
+      addressCandidateCount: candidates.length,
+    };
+  },
+
+  // Candidates in the order ranked by the Adress API; kommun/postnummer are also applied locally
+  async searchAddresses(
+    address: string,
+    options: { kommun?: string; postnummer?: string; maxResults?: number } = {},
+  ): Promise<AddressResult[]> {
+    requireCredentials();
+
+    const { kommun, postnummer, maxResults = 10 } = options;
+    const params = new URLSearchParams({ adress: address, maxHits: maxResults.toString() });
+    if (kommun) params.set('kommun', kommun);
+    if (postnummer) params.set('postnummer', normalizePostnummer(postnummer));
+
+    try {
+      const response = await authenticatedFetch<{ features?: AddressFeature[] }>(
+        `${API_BASE_URL}/adress/v1/sok?${params.toString()}`,
       );
+
+      return (response.features || [])
+        .map(toAddressResult)
+        .filter((a) => !kommun || a.kommun.toLowerCase() === kommun.trim().toLowerCase())
+        .filter((a) => !postnummer || normalizePostnummer(a.postnummer) === normalizePostnummer(postnummer))
+        .slice(0, maxResults);
+    } catch (error) {
+      if (error instanceof UpstreamApiError && error.statusCode === 404) {
+        return [];
+      }
+      throw error;
     }
+  },
+
+  // Reverse geocoding: addresses within radius meters, nearest first
+  async findNearbyAddresses(
+    point: Sweref99Point,
+    radius: number = 50,
+    maxResults: number = 10,
+  ): Promise<Array<AddressResult & { distance: number }>> {
+    requireCredentials();
 
-    const geocodeUrl = `${API_BASE_URL}/adress/v1/sok?adress=${encodeURIComponent(address)}`;
+    const params = new URLSearchParams({
+      geometri: `POINT(${point.x} ${point.y})`,
+      buffert: radius.toString(),
+    });
 
     try {
-      const addressResults = await authenticatedFetch<{
-        features?: Array<{
-          properties: AddressResult;
-          geometry?: {
-            coordinates: number[];
-          };
-        }>;
-      }>(geocodeUrl);
+      const response = await authenticatedFetch<{ features?: AddressFeature[] }>(
+        `${API_BASE_URL}/adress/v1/hitta?${params.toString()}`,
+      );
 
-      if (!addressResults.features || addressResults.features.length === 0) {
-        return { properties: [], totalCount: 0 };
+      return (response.features || [])
+        .map(toAddressResult)
+        .filter((a): a is AddressResult & { koordinat: NonNullable<AddressResult['koordinat']> } => !!a.koordinat)
+        .map((a) => ({ ...a, distance: Math.round(Math.hypot(a.koordinat.x - point.x, a.koordinat.y - point.y)) }))
+        .filter((a) => a.distance <= radius)
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, maxResults);
+    } catch (error) {
+      if (error instanceof UpstreamApiError && error.statusCode === 404) {
+        return [];
       }
+      throw error;
+    }
+  },
 
-      const firstMatch = addressResults.features[0];
-      if (!firstMatch.geometry?.coordinates) {
-        return { properties: [], totalCount: 0 };
+  async findPropertyByDesignation(designation: string): Promise<PropertyInfo | null> {
+    requireCredentials();
+
+    const url = `${API_BASE_URL}/fastighetsindelning/v1/sok?beteckning=${encodeURIComponent(designation)}`;
+
+    try {
+      const response = await authenticatedFetch<{ features?: PropertyFeature[] }>(url);
+
+      if (!response.features || response.features.length === 0) {
+        return null;
       }
 
-      const [x, y] = firstMatch.geometry.coordinates;
-      return this.findPropertyByPoint({ x, y });
+      return toPropertyInfo(response.features[0]);
     } catch (error) {
       if (error instanceof UpstreamApiError && error.statusCode === 404) {
-        return { properties: [], totalCount: 0 };
+        return null;
       }
       throw error;
     }
   },
 
-  async findPropertyByDesignation(designation: string): Promise<PropertyInfo | null> {
-    if (!hasCredentials()) {
-      throw new ConfigurationError(
-        'Lantmäteriet API credentials required. Set LANTMATERIET_CONSUMER_KEY and ' +
-          'LANTMATERIET_CONSUMER_SECRET environment variables. Register at https://geotorget.lantmateriet.se/',
-        'LANTMATERIET_CONSUMER_KEY, LANTMATERIET_CONSUMER_SECRET',
+  // All properties the designation search returns, in upstream order; ranking is left to the caller
+  async searchPropertiesByDesignation(designation: string, maxResults: number = 10): Promise<PropertyInfo[]> {
+    requireCredentials();
+
+    const params = new URLSearchParams({ beteckning: designation, maxHits: maxResults.toString() });
+
+    try {
+      const response = await authenticatedFetch<{ features?: PropertyFeature[] }>(
+        `${API_BASE_URL}/fastighetsindelning/v1/sok?${params.toString()}`,
       );
+      return (response.features || []).slice(0, maxResults).map(toPropertyInfo);
+    } catch (error) {
+      if (error instanceof UpstreamApiError && error.statusCode === 404) {
+        return [];
+      }
+      throw error;
     }
+  },
 
-    const url = `${API_BASE_URL}/fastighetsindelning/v1/sok?beteckning=${encodeURIComponent(designation)}`;
+  // Direct lookup by the UUID returned from the other property queries
+  async findPropertyById(objektidentitet: string): Promise<PropertyInfo | null> {
+    requireCredentials();
+
+    const url = `${API_BASE_URL}/fastighetsindelning/v1/${encodeURIComponent(objektidentitet)}`;
+
+    try {
+      // The endpoint answers with a single Feature; some gateway versions wrap it in a FeatureCollection
+      const response = await authenticatedFetch<PropertyFeature & { features?: PropertyFeature[] }>(url);
+      const feature = response.features ? response.features[0] : response.properties ? response : undefined;
+      return feature ? toPropertyInfo(feature) : null;
+    } catch (error) {
+      if (error instanceof UpstreamApiError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  // Properties intersecting a geometry, optionally grown by buffer meters, read page by page up to maxResults.
+  // Pages follow the "next" link, or the offset when there is none; keep geometry small, it goes in the URL
+  async findPropertiesByGeometry(
+    geometry: GeoJsonGeometry,
+    options: { buffer?: number; maxResults?: number } = {},
+  ): Promise<PropertyGeometrySearchResult> {
+    requireCredentials();
+
+    const maxResults = options.maxResults ?? MAX_GEOMETRY_SEARCH_RESULTS;
+    const params = new URLSearchParams({ geometri: geometryToWkt(geometry), limit: PROPERTY_PAGE_SIZE.toString() });
+    if (options.buffer) params.set('buffert', options.buffer.toString());
+    const firstUrl = `${API_BASE_URL}/fastighetsindelning/v1/hitta?${params.toString()}`;
+
+    const found = new Map<string, PropertyInfo>();
+    let numberMatched: number | undefined;
+    let url: string | undefined = firstUrl;
+    let offset = 0;
+    while (url && found.size < maxResults) {
+      let response: PropertyFeatureCollection;
+      try {
+        response = await authenticatedFetch<PropertyFeatureCollection>(url);
+      } catch (error) {
+        if (error instanceof UpstreamApiError && error.statusCode === 404) break;
+        throw error;
+      }
+
+      const features = response.features || [];
+      const before = found.size;
+      for (const property of features.map(toPropertyInfo)) {
+        found.set(property.objektidentitet || property.beteckning, property);
+      }
+      numberMatched = numberMatched ?? response.numberMatched;
+      offset += features.length;
+
+      // A page with nothing new means the service ignored the paging; the token never leaves the API host
+      const next = response.links?.find((link) => link.rel === 'next')?.href;
+      url =
+        found.size === before
+          ? undefined
+          : next?.startsWith(`${API_BASE_URL}/`)
+            ? next
+            : features.length >= PROPERTY_PAGE_SIZE
+              ? `${firstUrl}&offset=${offset}`
+              : undefined;
+    }
+
+    const properties = [...found.values()].slice(0, maxResults);
+    const complete = url === undefined && found.size <= maxResults;
+    return { properties, totalCount: numberMatched ?? (complete ? properties.length : undefined), complete };
+  },
+
+  // Buildings at a point, intersecting a bbox, or standing on a given property
+  async findBuildings(query: BuildingQuery): Promise<BuildingSearchResult> {
+    requireCredentials();
+
+    const params =
+      'point' in query
+        ? `geometri=${encodeURIComponent(`POINT(${query.point.x} ${query.point.y})`)}`
+        : 'bbox' in query
+          ? `geometri=${encodeURIComponent(bboxToWktPolygon(query.bbox))}`
+          : `fastighet=${encodeURIComponent(query.objektidentitet)}`;
+    const url = `${API_BASE_URL}/byggnad/v1/hitta?${params}`;
 
     try {
       const response = await authenticatedFetch<{
         features?: Array<{
           properties: {
             objektidentitet: string;
-            beteckning: string;
-            kommun?: string;
-            lan?: string;
+            objekttyp?: string;
+            andamal?: string[];
+            husnummer?: number;
+            fastighet?: string;
             area?: number;
           };
-          geometry?: object;
+          geometry?: GeoJsonGeometry;
         }>;
       }>(url);
 
-      if (!response.features || response.features.length === 0) {
-        return null;
-      }
-
-      const f = response.features[0];
-      return {
+      const buildings: BuildingInfo[] = (response.features || []).map((f) => ({
         objektidentitet: f.properties.objektidentitet,
-        beteckning: f.properties.beteckning,
-        kommun: f.properties.kommun || '',
-        lan: f.properties.lan || '',
+        objekttyp: f.properties.objekttyp || '',
+        andamal: f.properties.andamal || [],
+        husnummer: f.properties.husnummer,
+        fastighet: f.properties.fastighet,
         area: f.properties.area,
+        geometry: f.geometry,
+      }));
+
+      return {
+        buildings,
+        totalCount: buildings.length,
       };
     } catch (error) {
       if (error instanceof UpstreamApiError && error.statusCode === 404) {
-        return null;
+        return { buildings: [], totalCount: 0 };
       }
       throw error;
     }
   },
 
-  async getElevation(point: Sweref99Point): Promise<ElevationResult> {
-    if (!hasCredentials()) {
-      throw new ConfigurationError(
-        'Lantmäteriet API credentials required. Set LANTMATERIET_CONSUMER_KEY and ' +
-          'LANTMATERIET_CONSUMER_SECRET environment variables. Register at https://geotorget.lantmateriet.se/',
-        'LANTMATERIET_CONSUMER_KEY, LANTMATERIET_CONSUMER_SECRET',
+  // Municipality, county and parish containing a point, from the Administrativ indelning dataset
+  async findAdministrativeUnits(
+    point: Sweref99Point,
+    options: { includeGeometry?: boolean } = {},
+  ): Promise<AdministrativeUnits> {
+    requireCredentials();
+
+    const params = new URLSearchParams({ geometri: `POINT(${point.x} ${point.y})` });
+    if (!options.includeGeometry) params.set('geometri_utdata', 'false');
+
+    const lookup = async (type: AdministrativeUnitType): Promise<AdministrativeUnit | undefined> => {
+      try {
+        const response = await authenticatedFetch<{ features?: AdministrativeUnitFeature[] }>(
+          `${API_BASE_URL}/administrativindelning/v1/${type}/hitta?${params.toString()}`,
+        );
+        const feature = response.features?.[0];
+        return feature ? toAdministrativeUnit(type, feature) : undefined;
+      } catch (error) {
+        if (error instanceof UpstreamApiError && error.statusCode === 404) {
+          return undefined;
+        }
+        throw error;
+      }
+    };
+
+    const [kommun, lan, forsamling] = await Promise.all([lookup('kommun'), lookup('lan'), lookup('forsamling')]);
+    return { kommun, lan, forsamling };
+  },
+
+  // All municipalities in a county, ordered by kommunkod
+  async listMunicipalities(lanskod: string, options: { includeGeometry?: boolean } = {}): Promise<AdministrativeUnit[]> {
+    requireCredentials();
+
+    const params = new URLSearchParams({ lanskod });
+    if (!options.includeGeometry) params.set('geometri_utdata', 'false');
+
+    try {
+      const response = await authenticatedFetch<{ features?: AdministrativeUnitFeature[] }>(
+        `${API_BASE_URL}/administrativindelning/v1/kommun/sok?${params.toString()}`,
+      );
+      return (response.features || [])
+        .map((f) => toAdministrativeUnit('kommun', f))
+        .filter((k) => k.kod.startsWith(lanskod))
+        .sort((a, b) => a.kod.localeCompare(b.kod));
+    } catch (error) {
+      if (error instanceof UpstreamApiError && error.statusCode === 404) {
+        return [];
+      }
+      throw error;
+    }
+  },
+
+  // Marktäcke polygons at a point or intersecting a bbox. Features are returned whole, not clipped to the bbox
+  async findLandCover(query: LandCoverQuery): Promise<LandCoverFeature[]> {
+    requireCredentials();
+
+    const geometri = 'point' in query ? `POINT(${query.point.x} ${query.point.y})` : bboxToWktPolygon(query.bbox);
+    const url = `${API_BASE_URL}/marktacke/v1/hitta?geometri=${encodeURIComponent(geometri)}`;
+
+    try {
+      const response = await authenticatedFetch<{
+        features?: Array<{
+          properties: { objekttyp?: string };
+          geometry?: GeoJsonGeometry;
+        }>;
+      }>(url);
+
+      return (response.features || [])
+        .filter((f): f is { properties: { objekttyp?: string }; geometry: GeoJsonGeometry } => !!f.geometry)
+        .map((f) => ({ objekttyp: f.properties.objekttyp || 'Okänd', geometry: f.geometry }));
+    } catch (error) {
+      if (error instanceof UpstreamApiError && error.statusCode === 404) {
+        return [];
+      }
+      throw error;
+    }
+  },
+
+  // Lakes, watercourses and sea from the Hydrografi dataset within radius meters of a geometry (point or polygon)
+  async findWaterFeatures(geometry: GeoJsonGeometry, radius: number): Promise<WaterFeature[]> {
+    requireCredentials();
+
+    const params = new URLSearchParams({ geometri: geometryToWkt(geometry), buffert: radius.toString() });
+
+    try {
+      const response = await authenticatedFetch<{
+        features?: Array<{
+          properties: { objektidentitet?: string; namn?: string; objekttyp?: string };
+          geometry?: GeoJsonGeometry;
+        }>;
+      }>(`${API_BASE_URL}/hydrografi/v1/hitta?${params.toString()}`);
+
+      return (response.features || []).flatMap((f) =>
+        f.geometry
+          ? [
+              {
+                objektidentitet: f.properties.objektidentitet,
+                namn: f.properties.namn || undefined,
+                objekttyp: f.properties.objekttyp || 'Okänd',
+                geometry: f.geometry,
+              },
+            ]
+          : [],
+      );
+    } catch (error) {
+      if (error instanceof UpstreamApiError && error.statusCode === 404) {
+        return [];
+      }
+      throw error;
+    }
+  },
+
+  // Geocodes a place name (lake, village, mountain...) via the Ortnamn dataset
+  async searchPlaceNames(
+    name: string,
+    options: { kommun?: string; objekttyp?: string; maxResults?: number } = {},
+  ): Promise<PlaceNameResult[]> {
+    requireCredentials();
+
+    const { kommun, objekttyp, maxResults = 10 } = options;
+    const params = new URLSearchParams({ namn: name, maxHits: maxResults.toString() });
+    if (kommun) params.set('kommun', kommun);
+    if (objekttyp) params.set('objekttyp', objekttyp);
+
+    try {
+      const response = await authenticatedFetch<{ features?: PlaceNameFeature[] }>(
+        `${API_BASE_URL}/ortnamn/v1/sok?${params.toString()}`,
+      );
+
+      return (response.features || [])
+        .map(toPlaceNameResult)
+        .filter((p): p is PlaceNameResult => p !== null)
+        .slice(0, maxResults);
+    } catch (error) {
+      if (error instanceof UpstreamApiError && error.statusCode === 404) {
+        return [];
+      }
+      throw error;
+    }
+  },
+
+  // Reverse geocoding: named places within radius meters, nearest first
+  async findNearbyPlaceNames(point: Sweref99Point, radius: number = 1000, maxResults: number = 10): Promise<PlaceNameResult[]> {
+    requireCredentials();
+
+    const params = new URLSearchParams({
+      geometri: `POINT(${point.x} ${point.y})`,
+      buffert: radius.toString(),
+    });
+
+    try {
+      const response = await authenticatedFetch<{ features?: PlaceNameFeature[] }>(
+        `${API_BASE_URL}/ortnamn/v1/hitta?${params.toString()}`,
       );
+
+      return (response.features || [])
+        .map(toPlaceNameResult)
+        .filter((p): p is PlaceNameResult => p !== null)
+        .map((p) => ({ ...p, distance: Math.round(Math.hypot(p.coordinate.x - point.x, p.coordinate.y - point.y)) }))
+        .filter((p) => p.distance <= radius)
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, maxResults);
+    } catch (error) {
+      if (error instanceof UpstreamApiError && error.statusCode === 404) {
+        return [];
+      }
+      throw error;
     }
+  },
+
+  async getElevation(point: Sweref99Point): Promise<ElevationResult> {
+    requireCredentials();
 
     const url = `${API_BASE_URL}/hojd/v1/punkt?nord=${point.y}&ost=${point.x}&referenssystem=3006`;
 
@@ -212,50 +772,43 @@ export const lantmaterietClient = {
 
   // Open CC-BY data (no auth required)
   getTopographicMapUrl(point: Sweref99Point, options: { width?: number; height?: number; zoom?: number } = {}): MapUrlResult {
-    const { width = 1000, height = 1000, zoom = 10 } = options;
-
-    // Build WMTS GetTile URL template
-    // Clients can use this with their preferred tiling scheme
-    const url = `${OPEN_TOPOWEBB_WMTS}/topowebb/default/3006/{z}/{y}/{x}.png`;
-
-    const halfWidth = width / 2;
-    const halfHeight = height / 2;
-    const bbox: BoundingBox = {
-      minX: point.x - halfWidth,
-      minY: point.y - halfHeight,
-      maxX: point.x + halfWidth,
-      maxY: point.y + halfHeight,
-    };
-
-    return {
-      url,
-      layers: ['topowebb'],
-      crs: CRS_SWEREF99TM,
-      bbox,
-    };
+    return buildWmtsMap('topowebb', point, options);
   },
 
   // Open CC-BY data (no auth required)
-  getOrthophotoMapUrl(point: Sweref99Point, options: { width?: number; height?: number } = {}): MapUrlResult {
-    const { width = 1000, height = 1000 } = options;
-
-    const url = `${OPEN_ORTOFOTO_WMTS}/orto/default/3006/{z}/{y}/{x}.png`;
-
-    const halfWidth = width / 2;
-    const halfHeight = height / 2;
-    const bbox: BoundingBox = {
-      minX: point.x - halfWidth,
-      minY: point.y - halfHeight,
-      maxX: point.x + halfWidth,
-      maxY: point.y + halfHeight,
-    };
+  getOrthophotoMapUrl(point: Sweref99Point, options: { width?: number; height?: number; zoom?: number } = {}): MapUrlResult {
+    return buildWmtsMap('orto', point, options);
+  },
 
-    return {
-      url,
-      layers: ['orto'],
-      crs: CRS_SWEREF99TM,
-      bbox,
-    };
+  // Concrete GetTile URL for one tile of an open WMTS layer
+  getMapTileUrl(layer: WmtsLayer, zoom: number, row: number, col: number): string {
+    if (!Object.hasOwn(WMTS_LAYERS, layer)) {
+      throw new ValidationError(`Unknown map layer: ${layer}`, 'layer');
+    }
+    const { maxZoom } = WMTS_LAYERS[layer];
+    if (![zoom, row, col].every(Number.isInteger) || zoom < 0 || zoom > maxZoom || row < 0 || col < 0) {
+      throw new ValidationError(`Invalid tile ${zoom}/${row}/${col} for ${layer} (zoom 0-${maxZoom})`, 'tile');
+    }
+    return wmtsTileUrl(layer, zoom, row, col);
+  },
+
+  // Fetches one map image (WMTS tile or WMS GetMap); null when the service has no image there.
+  // With authenticated set, the OAuth token is added when credentials are configured
+  async fetchMapImage(url: string, options: { authenticated?: boolean } = {}): Promise<Buffer | null> {
+    const headers: Record<string, string> = { Accept: 'image/png,image/*' };
+    if (options.authenticated && hasCredentials()) {
+      headers.Authorization = `Bearer ${await getAccessToken()}`;
+    }
+    const response = await fetch(url, { headers });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new UpstreamApiError(
+        `The map service returned an error (HTTP ${response.status}). This is usually temporary — try again.`,
+        response.status,
+        'Lantmäteriet WMTS',
+      );
+    }
+    return Buffer.from(await response.arrayBuffer());
   },
 
   getPropertyMapUrl(
@@ -290,69 +843,119 @@ export const lantmaterietClient = {
     collection: 'ortofoto' | 'hojd',
     maxResults: number = 10,
   ): Promise<StacSearchResultItem[]> {
-    const stacUrl = collection === 'ortofoto' ? STAC_ORTO_URL : STAC_HOJD_URL;
+    const page = await this.searchStacPage({ bbox, collection, limit: maxResults });
+    return page.items;
+  },
 
-    // STAC API expects bbox in [minX, minY, maxX, maxY] order (SWEREF99TM)
-    const bboxArray = [bbox.minX, bbox.minY, bbox.maxX, bbox.maxY];
+  // Every item intersecting bbox up to maxItems, newest first across pages; complete is false when the catalog has
+  // more than maxItems
+  async searchStacAll(
+    bbox: BoundingBox,
+    collection: 'ortofoto' | 'hojd',
+    maxItems: number,
+  ): Promise<{ items: StacSearchResultItem[]; complete: boolean }> {
+    const items: StacSearchResultItem[] = [];
+    let cursor: string | undefined;
+    do {
+      const limit = Math.min(STAC_PAGE_SIZE, maxItems - items.length);
+      const page = await this.searchStacPage({ bbox, collection, limit, sortby: NEWEST_FIRST, cursor });
+      items.push(...page.items);
+      cursor = page.items.length > 0 ? page.nextCursor : undefined;
+    } while (cursor && items.length < maxItems);
+
+    return { items: items.slice(0, maxItems), complete: !cursor && items.length <= maxItems };
+  },
 
-    const searchBody = {
-      bbox: bboxArray,
-      limit: maxResults,
-    };
+  // One page of a STAC item search; nextCursor continues it with the request the catalog's "next" link describes
+  async searchStacPage(query: StacQuery): Promise<StacSearchPage> {
+    const page = await this.searchStacItems(query);
+    return { ...page, items: page.items.map(toStacResultItem) };
+  },
 
-    // STAC API may require authentication for some endpoints
-    let response: Response;
-    if (hasCredentials()) {
-      const token = await getAccessToken();
-      response = await fetch(`${stacUrl}/search`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/geo+json',
-        },
-        body: JSON.stringify(searchBody),
-      });
-    } else {
-      // Try without auth for open STAC endpoints
-      response = await fetch(`${stacUrl}/search`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/geo+json',
-        },
-        body: JSON.stringify(searchBody),
-      });
-    }
+  // Search returning the full STAC items (assets, footprint, properties) rather than the summarised form
+  async searchStacItems(query: StacQuery): Promise<StacItemPage> {
+    const stacUrl = stacBaseUrl(query.collection);
 
-    if (!response.ok) {
-      const msg =
-        response.status >= 500
-          ? `The data service returned an error (HTTP ${response.status}). This is usually temporary — try again.`
-          : `The data service rejected the request (HTTP ${response.status}). The query parameters may be invalid.`;
-      throw new UpstreamApiError(msg, response.status, 'Lantmäteriet STAC');
+    // STAC API expects bbox in [minX, minY, maxX, maxY] order (SWEREF99TM)
+    const searchBody: Record<string, unknown> = { limit: query.limit ?? 10 };
+    if (query.bbox) searchBody.bbox = [query.bbox.minX, query.bbox.minY, query.bbox.maxX, query.bbox.maxY];
+    if (query.ids) searchBody.ids = query.ids;
+    if (query.datetime) searchBody.datetime = query.datetime;
+    if (query.filter) {
+      searchBody.filter = query.filter;
+      searchBody['filter-lang'] = 'cql2-text';
+    }
+    if (query.sortby && query.sortby.length > 0) searchBody.sortby = query.sortby;
+
+    let url = `${stacUrl}/search`;
+    let method: 'GET' | 'POST' = 'POST';
+    let body: Record<string, unknown> | undefined = searchBody;
+    if (query.cursor) {
+      const next = decodeStacCursor(query.cursor, stacUrl);
+      url = next.href;
+      method = next.method ?? 'GET';
+      body = method === 'GET' ? undefined : next.merge ? { ...searchBody, ...next.body } : (next.body ?? searchBody);
     }
 
-    const data = (await response.json()) as StacSearchResponse;
+    const data = await stacFetch<StacSearchResponse>(url, method, body);
+    const nextLink = data.links?.find((link) => link.rel === 'next');
+
+    return {
+      items: data.features,
+      numberMatched: data.numberMatched,
+      numberReturned: data.numberReturned ?? data.features.length,
+      nextCursor: nextLink ? encodeStacCursor(nextLink) : undefined,
+    };
+  },
 
-    return data.features.map((item) => {
-      const bands = item.properties['eo:bands']?.map((b) => b.common_name || b.name) || [];
+  // Collection metadata (title, license, extent, summaries); null when the catalog doesn't know the id
+  async getStacCollection(collection: 'ortofoto' | 'hojd', collectionId: string): Promise<StacCollection | null> {
+    try {
+      return await stacFetch<StacCollection>(
+        `${stacBaseUrl(collection)}/collections/${encodeURIComponent(collectionId)}`,
+        'GET',
+      );
+    } catch (error) {
+      if (error instanceof UpstreamApiError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
 
-      const dataAsset = item.assets['data'] || item.assets['visual'] || Object.values(item.assets)[0];
-      const downloadUrl = dataAsset?.href;
+  // Reads the COG tiles covering bbox into one grid; only the byte ranges (and overview level) needed are fetched.
+  // coverageNote is set when more tiles intersect bbox than were read
+  async readStacRaster(
+    bbox: BoundingBox,
+    collection: 'ortofoto' | 'hojd',
+    resolution: number,
+    options: { samples?: number[]; maxTiles?: number; items?: StacSearchResultItem[] } = {},
+  ): Promise<RasterGrid & { usedSources: string[]; items: StacSearchResultItem[]; coverageNote?: string }> {
+    const { samples, maxTiles = MAX_RASTER_TILES } = options;
+
+    // Callers that need particular tiles (e.g. only those with a NIR band) pass them in
+    const listed = options.items
+      ? { items: options.items, complete: true }
+      : await this.searchStacAll(bbox, collection, maxTiles);
+    // Oldest first, so the newest tile is drawn on top where tiles overlap
+    const items = [...listed.items].sort((a, b) => a.datetime.localeCompare(b.datetime));
+    const sources = items.map((item) => item.downloadUrl).filter((url): url is string => !!url);
+    if (sources.length === 0) {
+      throw new NotFoundError(`${collection} raster coverage`, `${bbox.minX},${bbox.minY},${bbox.maxX},${bbox.maxY}`);
+    }
 
-      const thumbnailAsset = item.assets['thumbnail'] || item.assets['preview'];
-      const thumbnailUrl = thumbnailAsset?.href;
+    const headers = hasCredentials() ? { Authorization: `Bearer ${await getAccessToken()}` } : undefined;
 
-      return {
-        id: item.id,
-        datetime: item.properties.datetime,
-        bbox: item.bbox,
-        resolution: item.properties.resolution,
-        bands: bands.length > 0 ? bands : undefined,
-        downloadUrl,
-        thumbnailUrl,
-      };
-    });
+    try {
+      const grid = await readMosaic(sources, bbox, resolution, { headers, samples });
+      return { ...grid, items, coverageNote: listed.complete ? undefined : incompleteCoverageNote(items.length) };
+    } catch (error) {
+      console.error('COG read failed:', error);
+      throw new UpstreamApiError(
+        'Reading raster data from the data service failed. This is usually temporary — try again.',
+        502,
+        'Lantmäteriet STAC',
+      );
+    }
   },
 };
@@ -0,0 +1,64 @@
+import { ValidationError } from './errors';
+import type { AdministrativeUnits } from '@/types/lantmateriet';
+
+// The 21 counties with their official länskod. Kommunkod always starts with the länskod of its county
+export const COUNTIES = [
+  { lanskod: '01', namn: 'Stockholms län' },
+  { lanskod: '03', namn: 'Uppsala län' },
+  { lanskod: '04', namn: 'Södermanlands län' },
+  { lanskod: '05', namn: 'Östergötlands län' },
+  { lanskod: '06', namn: 'Jönköpings län' },
+  { lanskod: '07', namn: 'Kronobergs län' },
+  { lanskod: '08', namn: 'Kalmar län' },
+  { lanskod: '09', namn: 'Gotlands län' },
+  { lanskod: '10', namn: 'Blekinge län' },
+  { lanskod: '12', namn: 'Skåne län' },
+  { lanskod: '13', namn: 'Hallands län' },
+  { lanskod: '14', namn: 'Västra Götalands län' },
+  { lanskod: '17', namn: 'Värmlands län' },
+  { lanskod: '18', namn: 'Örebro län' },
+  { lanskod: '19', namn: 'Västmanlands län' },
+  { lanskod: '20', namn: 'Dalarnas län' },
+  { lanskod: '21', namn: 'Gävleborgs län' },
+  { lanskod: '22', namn: 'Västernorrlands län' },
+  { lanskod: '23', namn: 'Jämtlands län' },
+  { lanskod: '24', namn: 'Västerbottens län' },
+  { lanskod: '25', namn: 'Norrbottens län' },
+] as const;
+
+export type County = (typeof COUNTIES)[number];
+
+// "Skåne", "skåne län", "Skånes län" and "12" all resolve to the same county
+function normalizeCountyName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/\s+län$/, '')
+    .replace(/s$/, '');
+}
+
+export function resolveCounty(county: string): County {
+  const code = county.trim().padStart(2, '0');
+  const match = /^\d{2}$/.test(code)
+    ? COUNTIES.find((c) => c.lanskod === code)
+    : COUNTIES.find((c) => normalizeCountyName(c.namn) === normalizeCountyName(county));
+
+  if (!match) {
+    throw new ValidationError(
+      `Unknown county "${county}". Use a länskod (e.g. "01") or a county name (e.g. "Stockholms län")`,
+      'county',
+    );
+  }
+  return match;
+}
+
+export function countyForKommunkod(kommunkod: string): County | undefined {
+  return COUNTIES.find((c) => c.lanskod === kommunkod.slice(0, 2));
+}
+
+// The county follows from the kommunkod when the county layer has no hit (e.g. points just offshore)
+export function withCountyFromKommun(units: AdministrativeUnits): AdministrativeUnits {
+  if (units.lan || !units.kommun) return units;
+  const county = countyForKommunkod(units.kommun.kod);
+  return county ? { ...units, lan: { type: 'lan', namn: county.namn, kod: county.lanskod } } : units;
+}
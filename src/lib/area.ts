@@ -0,0 +1,74 @@
+import { toSweref99Bbox, toSweref99Polygon, validateBbox, type BoundingBox, type SupportedCrs } from './coordinates';
+import { geometryArea, geometryBbox } from './geometry';
+import { NotFoundError, ValidationError } from './errors';
+import { round } from './response';
+import type { GeoJsonGeometry, PropertyInfo, StacSearchResultItem } from '@/types/lantmateriet';
+
+// Area arguments of the tools that analyse a bbox, a polygon or a property
+export type AreaInput = {
+  minLat?: number;
+  minLon?: number;
+  maxLat?: number;
+  maxLon?: number;
+  polygon?: number[][];
+  designation?: string;
+  inputCrs?: SupportedCrs;
+};
+
+export interface ResolvedArea {
+  geometry?: GeoJsonGeometry; // Absent for a plain bbox
+  bbox: BoundingBox;
+  source: string; // The property designation, "polygon" or "bbox"
+  area: number; // Square meters
+}
+
+// The area in SWEREF99 TM, from a property boundary, a polygon or a bbox in that order of precedence. Designations
+// are only accepted when the tool passes a property lookup
+export async function resolveArea(
+  args: AreaInput,
+  findProperty?: (designation: string) => Promise<PropertyInfo | null>,
+): Promise<ResolvedArea> {
+  if (findProperty && args.designation) {
+    const property = await findProperty(args.designation);
+    if (!property?.geometry) {
+      throw new NotFoundError('Property', args.designation);
+    }
+    const geometry = property.geometry;
+    return { geometry, bbox: geometryBbox(geometry), source: property.beteckning, area: geometryArea(geometry) };
+  }
+
+  if (args.polygon && args.polygon.length > 0) {
+    const geometry = toSweref99Polygon(args.polygon, args.inputCrs);
+    return { geometry, bbox: geometryBbox(geometry), source: 'polygon', area: geometryArea(geometry) };
+  }
+
+  if (args.minLat !== undefined && args.minLon !== undefined && args.maxLat !== undefined && args.maxLon !== undefined) {
+    const bbox = toSweref99Bbox(
+      { minLat: args.minLat, minLon: args.minLon, maxLat: args.maxLat, maxLon: args.maxLon },
+      args.inputCrs,
+    );
+    validateBbox(bbox);
+    return { bbox, source: 'bbox', area: (bbox.maxX - bbox.minX) * (bbox.maxY - bbox.minY) };
+  }
+
+  throw new ValidationError(
+    findProperty
+      ? 'Provide a bounding box (minLat/minLon/maxLat/maxLon), a polygon, or a property designation'
+      : 'Provide a bounding box (minLat/minLon/maxLat/maxLon) or a polygon as [latitude, longitude] pairs',
+    'area',
+  );
+}
+
+export function assertAreaWithin(area: number, maxArea: number): void {
+  if (area > maxArea) {
+    throw new ValidationError(
+      `Area is ${round(area / 1e6)} km², the maximum is ${maxArea / 1e6} km² — split it into smaller areas`,
+      'area',
+    );
+  }
+}
+
+// The listed tiles that actually contributed cells to a raster read
+export function sourceTiles(grid: { items: StacSearchResultItem[]; usedSources: string[] }): StacSearchResultItem[] {
+  return grid.items.filter((item) => item.downloadUrl && grid.usedSources.includes(item.downloadUrl));
+}
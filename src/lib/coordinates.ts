@@ -1,5 +1,7 @@
 import proj4 from 'proj4';
 import { ValidationError } from './errors';
+import { mapGeometryPositions } from './geometry';
+import type { GeoJsonGeometry } from '@/types/lantmateriet';
 
 export const CRS_SWEREF99TM = 'EPSG:3006';
 export const CRS_WGS84 = 'EPSG:4326';
@@ -7,6 +9,62 @@ export const CRS_WGS84 = 'EPSG:4326';
 // Official SWEREF99 TM projection definition from Lantmäteriet
 proj4.defs('EPSG:3006', '+proj=utm +zone=33 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs');
 
+// Regional SWEREF99 zones (EPSG:3007-3018), keyed by central meridian
+const SWEREF99_ZONES: Record<string, { name: string; lon0: number }> = {
+  'EPSG:3007': { name: 'SWEREF99 12 00', lon0: 12 },
+  'EPSG:3008': { name: 'SWEREF99 13 30', lon0: 13.5 },
+  'EPSG:3009': { name: 'SWEREF99 15 00', lon0: 15 },
+  'EPSG:3010': { name: 'SWEREF99 16 30', lon0: 16.5 },
+  'EPSG:3011': { name: 'SWEREF99 18 00', lon0: 18 },
+  'EPSG:3012': { name: 'SWEREF99 14 15', lon0: 14.25 },
+  'EPSG:3013': { name: 'SWEREF99 15 45', lon0: 15.75 },
+  'EPSG:3014': { name: 'SWEREF99 17 15', lon0: 17.25 },
+  'EPSG:3015': { name: 'SWEREF99 18 45', lon0: 18.75 },
+  'EPSG:3016': { name: 'SWEREF99 20 15', lon0: 20.25 },
+  'EPSG:3017': { name: 'SWEREF99 21 45', lon0: 21.75 },
+  'EPSG:3018': { name: 'SWEREF99 23 15', lon0: 23.25 },
+};
+
+for (const [code, { lon0 }] of Object.entries(SWEREF99_ZONES)) {
+  proj4.defs(
+    code,
+    `+proj=tmerc +lat_0=0 +lon_0=${lon0} +k=1 +x_0=150000 +y_0=0 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs`,
+  );
+}
+
+// RT90 2.5 gon V via Lantmäteriet's direct SWEREF99 parameters (about 1 m accuracy, no datum shift grid needed)
+export const CRS_RT90 = 'EPSG:3021';
+proj4.defs(
+  CRS_RT90,
+  '+proj=tmerc +lat_0=0 +lon_0=15.806284529444 +k=1.00000561024 +x_0=1500064.274 +y_0=-667.711 +ellps=GRS80 +units=m +no_defs +type=crs',
+);
+
+export const SUPPORTED_CRS = [
+  'EPSG:4326',
+  'EPSG:3006',
+  'EPSG:3007',
+  'EPSG:3008',
+  'EPSG:3009',
+  'EPSG:3010',
+  'EPSG:3011',
+  'EPSG:3012',
+  'EPSG:3013',
+  'EPSG:3014',
+  'EPSG:3015',
+  'EPSG:3016',
+  'EPSG:3017',
+  'EPSG:3018',
+  'EPSG:3021',
+] as const;
+export type SupportedCrs = (typeof SUPPORTED_CRS)[number];
+
+export const CRS_NAMES = {
+  'EPSG:4326': 'WGS84',
+  'EPSG:3006': 'SWEREF99 TM',
+  ...Object.fromEntries(Object.entries(SWEREF99_ZONES).map(([code, zone]) => [code, zone.name])),
+  'EPSG:3021': 'RT90 2.5 gon V',
+} as Record<SupportedCrs, string>;
+
 export interface Sweref99Point {
   x: number; // Easting
   y: number; // Northing
@@ -45,6 +103,10 @@ const WGS84_BOUNDS = {
   maxLon: 24.0,
 };
 
+// Points per bbox edge when reprojecting. Straight edges bend under transverse Mercator, so the corners
+// alone give a box that clips the area, worst far from the central meridian
+const BBOX_EDGE_SAMPLES = 16;
+
 export function isValidSweref99Coordinate(x: number, y: number): boolean {
   return (
     x >= SWEREF99TM_BOUNDS.minX && x <= SWEREF99TM_BOUNDS.maxX && y >= SWEREF99TM_BOUNDS.minY && y <= SWEREF99TM_BOUNDS.maxY
@@ -129,25 +191,174 @@ export function wgs84BboxToSweref99(bbox: Wgs84Bbox): BoundingBox {
     throw new ValidationError('minLon must be less than maxLon', 'bbox');
   }
 
-  const minCorner = wgs84ToSweref99({ latitude: bbox.minLat, longitude: bbox.minLon });
-  const maxCorner = wgs84ToSweref99({ latitude: bbox.maxLat, longitude: bbox.maxLon });
-
-  return {
-    minX: minCorner.x,
-    minY: minCorner.y,
-    maxX: maxCorner.x,
-    maxY: maxCorner.y,
-  };
+  const [minX, minY, maxX, maxY] = transformBboxEnvelope([bbox.minLon, bbox.minLat, bbox.maxLon, bbox.maxLat], (lon, lat) => {
+    const { x, y } = wgs84ToSweref99({ latitude: lat, longitude: lon });
+    return [x, y];
+  });
+  return { minX, minY, maxX, maxY };
 }
 
 export function sweref99BboxToWgs84(bbox: BoundingBox): Wgs84Bbox {
-  const minCorner = sweref99ToWgs84({ x: bbox.minX, y: bbox.minY });
-  const maxCorner = sweref99ToWgs84({ x: bbox.maxX, y: bbox.maxY });
+  const [minLon, minLat, maxLon, maxLat] = transformBboxEnvelope([bbox.minX, bbox.minY, bbox.maxX, bbox.maxY], (x, y) => {
+    const { latitude, longitude } = sweref99ToWgs84({ x, y });
+    return [longitude, latitude];
+  });
+  return { minLat, minLon, maxLat, maxLon };
+}
 
-  return {
-    minLat: minCorner.latitude,
-    minLon: minCorner.longitude,
-    maxLat: maxCorner.latitude,
-    maxLon: maxCorner.longitude,
-  };
+// Envelope of a densified bbox outline after transformation, as [minX, minY, maxX, maxY] in the target CRS
+function transformBboxEnvelope(
+  [minX, minY, maxX, maxY]: [number, number, number, number],
+  transform: (x: number, y: number) => [number, number],
+): [number, number, number, number] {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i <= BBOX_EDGE_SAMPLES; i++) {
+    const t = i / BBOX_EDGE_SAMPLES;
+    const x = minX + (maxX - minX) * t;
+    const y = minY + (maxY - minY) * t;
+    for (const [px, py] of [transform(x, minY), transform(x, maxY), transform(minX, y), transform(maxX, y)]) {
+      xs.push(px);
+      ys.push(py);
+    }
+  }
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
+
+// Reprojects every vertex of a SWEREF99 TM geometry, ring by ring, to WGS84 GeoJSON [longitude, latitude] order
+export function sweref99GeometryToWgs84(geometry: GeoJsonGeometry): GeoJsonGeometry {
+  return mapGeometryPositions(geometry, ([x, y]) => {
+    const { latitude, longitude } = sweref99ToWgs84({ x, y });
+    return [roundDegrees(longitude), roundDegrees(latitude)];
+  });
+}
+
+// 7 decimals is ~1 cm, well below the precision of the source data
+function roundDegrees(value: number): number {
+  return Math.round(value * 1e7) / 1e7;
+}
+
+const RT90_BOUNDS = {
+  minEasting: 1200000,
+  maxEasting: 1900000,
+  minNorthing: 6100000,
+  maxNorthing: 7700000,
+};
+
+/**
+ * Coordinate pairs are always given in (latitude, longitude) slot order. For projected CRSs that means
+ * (northing, easting), matching Lantmäteriet's "N, E" convention. Regional SWEREF99 zones overlap
+ * SWEREF99 TM numerically and cannot be detected, so they must be named explicitly.
+ */
+export function detectCrs(first: number, second: number): SupportedCrs {
+  if (isValidWgs84Coordinate(first, second)) return CRS_WGS84;
+  if (isValidSweref99Coordinate(second, first)) return CRS_SWEREF99TM;
+  if (
+    first >= RT90_BOUNDS.minNorthing &&
+    first <= RT90_BOUNDS.maxNorthing &&
+    second >= RT90_BOUNDS.minEasting &&
+    second <= RT90_BOUNDS.maxEasting
+  ) {
+    return CRS_RT90;
+  }
+  throw new ValidationError(
+    `Could not detect the coordinate system of (${first}, ${second}). ` +
+      'Give WGS84 as latitude/longitude, or projected coordinates as northing/easting and set inputCrs (e.g. "EPSG:3006").',
+    'inputCrs',
+  );
+}
+
+// Converts a (latitude, longitude) or (northing, easting) pair in the given or detected CRS to SWEREF99 TM
+export function toSweref99(first: number, second: number, crs?: SupportedCrs): Sweref99Point {
+  const sourceCrs = crs ?? detectCrs(first, second);
+
+  if (sourceCrs === CRS_WGS84) return wgs84ToSweref99({ latitude: first, longitude: second });
+
+  const [x, y] = sourceCrs === CRS_SWEREF99TM ? [second, first] : proj4(sourceCrs, CRS_SWEREF99TM, [second, first]);
+  if (!isValidSweref99Coordinate(x, y)) {
+    throw new ValidationError(
+      `${CRS_NAMES[sourceCrs]} coordinates (N ${first}, E ${second}) are outside valid range for Sweden`,
+      'coordinates',
+    );
+  }
+  return { x, y };
+}
+
+// Resolves a bbox given in lat/lon slots (northing/easting for projected CRSs) to SWEREF99 TM
+export function toSweref99Bbox(bbox: Wgs84Bbox, crs?: SupportedCrs): BoundingBox {
+  const sourceCrs = crs ?? detectCrs(bbox.minLat, bbox.minLon);
+
+  if (sourceCrs === CRS_WGS84) return wgs84BboxToSweref99(bbox);
+
+  // Projected bboxes are (easting, northing) in [x, y] terms, i.e. lon/lat slots
+  const [minX, minY, maxX, maxY] = transformBboxEnvelope([bbox.minLon, bbox.minLat, bbox.maxLon, bbox.maxLat], (e, n) => {
+    const { x, y } = toSweref99(n, e, sourceCrs);
+    return [x, y];
+  });
+  return { minX, minY, maxX, maxY };
+}
+
+// Reprojects caller-supplied GeoJSON ([longitude, latitude] or [easting, northing] positions) to SWEREF99 TM
+export function geometryToSweref99(geometry: GeoJsonGeometry, crs?: SupportedCrs): GeoJsonGeometry {
+  let sourceCrs = crs;
+  return mapGeometryPositions(geometry, ([x, y]) => {
+    sourceCrs ??= detectCrs(y, x);
+    const point = toSweref99(y, x, sourceCrs);
+    return [point.x, point.y];
+  });
+}
+
+// SWEREF99 TM positions of a line of pairs in one CRS, detected from the first pair when crs is omitted
+export function toSweref99Line(pairs: number[][], crs?: SupportedCrs): number[][] {
+  const sourceCrs = crs ?? detectCrs(pairs[0][0], pairs[0][1]);
+  return pairs.map(([first, second]) => {
+    const { x, y } = toSweref99(first, second, sourceCrs);
+    return [x, y];
+  });
+}
+
+// Builds a closed SWEREF99 TM polygon from (latitude, longitude) or (northing, easting) pairs in one CRS
+export function toSweref99Polygon(pairs: number[][], crs?: SupportedCrs): GeoJsonGeometry {
+  if (pairs.length < 3) {
+    throw new ValidationError('Polygon needs at least three coordinate pairs', 'polygon');
+  }
+  const ring = toSweref99Line(pairs, crs);
+  const [firstX, firstY] = ring[0];
+  const [lastX, lastY] = ring[ring.length - 1];
+  if (firstX !== lastX || firstY !== lastY) ring.push(ring[0]);
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+// WGS84 output as { latitude, longitude }; projected output as { northing, easting } rounded to the centimetre
+export function fromSweref99(
+  point: Sweref99Point,
+  crs: SupportedCrs = CRS_WGS84,
+): { latitude: number; longitude: number } | { northing: number; easting: number } {
+  if (crs === CRS_WGS84) return sweref99ToWgs84(point);
+  const [easting, northing] = crs === CRS_SWEREF99TM ? [point.x, point.y] : proj4(CRS_SWEREF99TM, crs, [point.x, point.y]);
+  return { northing: Math.round(northing * 100) / 100, easting: Math.round(easting * 100) / 100 };
+}
+
+// GeoJSON output keeps [x, y] order: [longitude, latitude] for WGS84, [easting, northing] for projected CRSs
+export function sweref99GeometryToCrs(geometry: GeoJsonGeometry, crs: SupportedCrs = CRS_WGS84): GeoJsonGeometry {
+  if (crs === CRS_WGS84) return sweref99GeometryToWgs84(geometry);
+  if (crs === CRS_SWEREF99TM) return geometry;
+  return mapGeometryPositions(geometry, ([x, y]) =>
+    proj4(CRS_SWEREF99TM, crs, [x, y]).map((v: number) => Math.round(v * 100) / 100),
+  );
+}
+
+export function sweref99BboxToCrs(
+  bbox: BoundingBox,
+  crs: SupportedCrs = CRS_WGS84,
+): Wgs84Bbox | { minNorthing: number; minEasting: number; maxNorthing: number; maxEasting: number } {
+  if (crs === CRS_WGS84) return sweref99BboxToWgs84(bbox);
+  const [minEasting, minNorthing, maxEasting, maxNorthing] = transformBboxEnvelope(
+    [bbox.minX, bbox.minY, bbox.maxX, bbox.maxY],
+    (x, y) => {
+      const { easting, northing } = fromSweref99({ x, y }, crs) as { northing: number; easting: number };
+      return [easting, northing];
+    },
+  );
+  return { minNorthing, minEasting, maxNorthing, maxEasting };
 }
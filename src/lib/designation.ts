@@ -0,0 +1,184 @@
+import { ValidationError } from './errors';
+
+// Property designations (fastighetsbeteckning) have the form "KOMMUN TRAKT BLOCK:ENHET", e.g. "STOCKHOLM VASASTADEN 1:1".
+// Block can be letters for samfälligheter ("S:1"), and trakt names may have several words ("STORA HÄSTHOLMEN")
+
+// Abbreviations and ASCII spellings people type for the most common kommuner
+const KOMMUN_ALIASES: Record<string, string> = {
+  STHLM: 'STOCKHOLM',
+  STHM: 'STOCKHOLM',
+  STOCKHOLMS: 'STOCKHOLM',
+  GBG: 'GÖTEBORG',
+  GTBG: 'GÖTEBORG',
+  GOTEBORG: 'GÖTEBORG',
+  GOTHENBURG: 'GÖTEBORG',
+  MALMO: 'MALMÖ',
+  UMEA: 'UMEÅ',
+  LINKOPING: 'LINKÖPING',
+  NORRKOPING: 'NORRKÖPING',
+  JONKOPING: 'JÖNKÖPING',
+  VASTERAS: 'VÄSTERÅS',
+  OREBRO: 'ÖREBRO',
+  GAVLE: 'GÄVLE',
+  SODERTALJE: 'SÖDERTÄLJE',
+  BORAS: 'BORÅS',
+  LULEA: 'LULEÅ',
+  VAXJO: 'VÄXJÖ',
+  SKELLEFTEA: 'SKELLEFTEÅ',
+  ORNSKOLDSVIK: 'ÖRNSKÖLDSVIK',
+  OSTERSUND: 'ÖSTERSUND',
+};
+
+export interface ParsedDesignation {
+  words: string[]; // Name words in input order, aliases expanded (kommun and/or trakt)
+  trailing: string[]; // Words after the numbers, e.g. the kommun in "vasastaden 1:1 sthlm"
+  block: string;
+  enhet: string;
+  normalized: string; // Best guess at the canonical form
+}
+
+export interface DesignationInterpretation {
+  kommun?: string;
+  trakt: string;
+  query: string; // Designation string to search for
+}
+
+export interface RankedDesignation<T> {
+  item: T;
+  score: number; // 0-1
+  reasons: string[];
+}
+
+function normalizeWord(word: string): string {
+  const upper = word.toLocaleUpperCase('sv-SE');
+  return KOMMUN_ALIASES[upper] ?? upper;
+}
+
+// Å/Ä/Ö folded to A/O so "vasteras" and "VÄSTERÅS" compare equal
+export function foldDiacritics(text: string): string {
+  return text.toLocaleUpperCase('sv-SE').replace(/[ÅÄ]/g, 'A').replace(/Ö/g, 'O').replace(/É/g, 'E');
+}
+
+// Finds the last "BLOCK:ENHET" group, written "1:1", "1.1", "1-1", "S:1" or with the separator left out ("1 1")
+function findNumbers(tokens: string[]): { start: number; end: number; block: string; enhet: string } | null {
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const joined = /^(\d+|[A-ZÅÄÖ]{1,2})[:.-](\d+)$/i.exec(tokens[i]);
+    if (joined) return { start: i, end: i, block: joined[1], enhet: joined[2] };
+    if (i + 1 < tokens.length && /^\d+$/.test(tokens[i]) && /^\d+$/.test(tokens[i + 1])) {
+      return { start: i, end: i + 1, block: tokens[i], enhet: tokens[i + 1] };
+    }
+  }
+  return null;
+}
+
+export function parseDesignation(input: string): ParsedDesignation {
+  const tokens = input
+    .trim()
+    .replace(/\s*:\s*/g, ':')
+    .split(/\s+/)
+    .filter(Boolean);
+  const numbers = findNumbers(tokens);
+  if (!numbers) {
+    throw new ValidationError(
+      `Could not find block and unit numbers in "${input}". Designations look like "STOCKHOLM VASASTADEN 1:1"`,
+      'designation',
+    );
+  }
+
+  const words = tokens.slice(0, numbers.start).map(normalizeWord);
+  const trailing = tokens.slice(numbers.end + 1).map(normalizeWord);
+  if (words.length === 0) {
+    throw new ValidationError(`"${input}" has no trakt name before the block and unit numbers`, 'designation');
+  }
+
+  // Leading zeros are not part of the designation ("1:01" is "1:1")
+  const block = /^\d+$/.test(numbers.block) ? String(Number(numbers.block)) : numbers.block.toLocaleUpperCase('sv-SE');
+  const enhet = String(Number(numbers.enhet));
+  const normalized = [...trailing, ...words, `${block}:${enhet}`].join(' ');
+  return { words, trailing, block, enhet, normalized };
+}
+
+// Readings of the name words: a trailing word is the kommun; otherwise the first one or two words may be the
+// kommun, or the kommun was left out
+export function designationInterpretations(parsed: ParsedDesignation): DesignationInterpretation[] {
+  const number = `${parsed.block}:${parsed.enhet}`;
+  const readings: Array<{ kommun?: string; trakt: string }> = [];
+
+  if (parsed.trailing.length > 0) {
+    readings.push({ kommun: parsed.trailing.join(' '), trakt: parsed.words.join(' ') });
+  } else {
+    for (let kommunWords = 1; kommunWords <= Math.min(2, parsed.words.length - 1); kommunWords++) {
+      readings.push({
+        kommun: parsed.words.slice(0, kommunWords).join(' '),
+        trakt: parsed.words.slice(kommunWords).join(' '),
+      });
+    }
+    readings.push({ trakt: parsed.words.join(' ') });
+  }
+
+  return readings.map((r) => ({ ...r, query: [r.kommun, r.trakt, number].filter(Boolean).join(' ') }));
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const x = foldDiacritics(a);
+  const y = foldDiacritics(b);
+  return x.length + y.length === 0 ? 1 : 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+}
+
+// Scores candidates (beteckning plus kommun) against the input: trakt name 50 %, block:enhet 30 %, kommun 20 %.
+// Without a kommun in the input the kommun share is neutral, which keeps equally named parcels tied
+export function rankDesignations<T>(
+  parsed: ParsedDesignation,
+  candidates: T[],
+  describe: (item: T) => { beteckning: string; kommun: string },
+): Array<RankedDesignation<T>> {
+  const readings = designationInterpretations(parsed);
+
+  return candidates
+    .map((item) => {
+      const { beteckning, kommun } = describe(item);
+      const candidateMatch = /^(.*?)\s+(\S+):(\d+)$/.exec(beteckning.trim().toLocaleUpperCase('sv-SE'));
+      const nameWords = (candidateMatch?.[1] ?? beteckning).toLocaleUpperCase('sv-SE').split(/\s+/);
+      const numberMatches = candidateMatch?.[2] === parsed.block && candidateMatch?.[3] === parsed.enhet;
+
+      // The best-fitting reading decides the score
+      let best = { score: 0, reasons: [] as string[] };
+      for (const reading of readings) {
+        // The beteckning starts with the kommun name; the trakt is as many words as the reading's trakt
+        const traktWords = Math.min(reading.trakt.split(' ').length, Math.max(1, nameWords.length - 1));
+        const candidateTrakt = nameWords.slice(-traktWords).join(' ');
+        const candidateKommun = (kommun || nameWords.slice(0, -traktWords).join(' ')).toLocaleUpperCase('sv-SE');
+
+        const traktScore = similarity(reading.trakt, candidateTrakt);
+        const kommunScore = reading.kommun ? similarity(reading.kommun, candidateKommun) : 0.5;
+        const score = 0.5 * traktScore + 0.3 * (numberMatches ? 1 : 0) + 0.2 * kommunScore;
+
+        if (score > best.score) {
+          const reasons = [
+            traktScore === 1 ? 'trakt matches' : `trakt ${Math.round(traktScore * 100)} % similar`,
+            numberMatches ? 'block and unit match' : 'different block or unit',
+            reading.kommun
+              ? kommunScore === 1
+                ? 'kommun matches'
+                : `kommun differs (${candidateKommun || 'unknown'})`
+              : 'no kommun given',
+          ];
+          best = { score, reasons };
+        }
+      }
+      return { item, score: Math.round(best.score * 100) / 100, reasons: best.reasons };
+    })
+    .sort((a, b) => b.score - a.score);
+}
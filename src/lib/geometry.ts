@@ -0,0 +1,365 @@
+import type { GeoJsonGeometry } from '@/types/lantmateriet';
+import type { BoundingBox } from './coordinates';
+
+export type Position = number[];
+export type Ring = Position[];
+
+// Applies fn to every vertex, preserving the nesting of the geometry type
+export function mapGeometryPositions(geometry: GeoJsonGeometry, fn: (position: Position) => Position): GeoJsonGeometry {
+  switch (geometry.type) {
+    case 'Point':
+      return { type: 'Point', coordinates: fn(geometry.coordinates as Position) };
+    case 'LineString':
+      return { type: 'LineString', coordinates: (geometry.coordinates as Ring).map(fn) };
+    case 'Polygon':
+      return { type: 'Polygon', coordinates: (geometry.coordinates as Ring[]).map((ring) => ring.map(fn)) };
+    case 'MultiPolygon':
+      return {
+        type: 'MultiPolygon',
+        coordinates: (geometry.coordinates as Ring[][]).map((polygon) => polygon.map((ring) => ring.map(fn))),
+      };
+  }
+}
+
+// Polygon and MultiPolygon as a list of polygons (outer ring first, then holes); other types yield none
+export function polygonsOf(geometry: GeoJsonGeometry): Ring[][] {
+  if (geometry.type === 'Polygon') return [geometry.coordinates as Ring[]];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates as Ring[][];
+  return [];
+}
+
+export function ringArea(ring: Ring): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return Math.abs(sum) / 2;
+}
+
+export function lineLength(line: Ring): number {
+  let length = 0;
+  for (let i = 0; i < line.length - 1; i++) {
+    length += Math.hypot(line[i + 1][0] - line[i][0], line[i + 1][1] - line[i][1]);
+  }
+  return length;
+}
+
+// Planar area in square meters for a projected (SWEREF99 TM) geometry; holes are subtracted
+export function geometryArea(geometry: GeoJsonGeometry): number {
+  return polygonsOf(geometry).reduce(
+    (total, [outer, ...holes]) => total + ringArea(outer) - holes.reduce((sum, hole) => sum + ringArea(hole), 0),
+    0,
+  );
+}
+
+// Total boundary length in meters for a projected geometry, including hole boundaries
+export function geometryPerimeter(geometry: GeoJsonGeometry): number {
+  if (geometry.type === 'LineString') return lineLength(geometry.coordinates as Ring);
+  return polygonsOf(geometry).reduce((total, rings) => total + rings.reduce((sum, ring) => sum + lineLength(ring), 0), 0);
+}
+
+function perpendicularDistance(p: Position, a: Position, b: Position): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return Math.hypot(p[0] - a[0], p[1] - a[1]);
+  const t = Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared));
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+// Douglas-Peucker, iterative to avoid deep recursion on large parcels
+function simplifyLine(line: Ring, tolerance: number): Ring {
+  if (line.length <= 2) return line;
+
+  const keep = new Array<boolean>(line.length).fill(false);
+  keep[0] = true;
+  keep[line.length - 1] = true;
+  const stack: Array<[number, number]> = [[0, line.length - 1]];
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = perpendicularDistance(line[i], line[start], line[end]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = true;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  return line.filter((_, i) => keep[i]);
+}
+
+// Rings keep at least four positions so they stay valid closed polygons
+function simplifyRing(ring: Ring, tolerance: number): Ring {
+  const simplified = simplifyLine(ring, tolerance);
+  return simplified.length >= 4 ? simplified : ring;
+}
+
+// Tolerance is in the units of the geometry (meters for SWEREF99 TM)
+export function simplifyGeometry(geometry: GeoJsonGeometry, tolerance: number): GeoJsonGeometry {
+  if (tolerance <= 0) return geometry;
+
+  switch (geometry.type) {
+    case 'LineString':
+      return { type: 'LineString', coordinates: simplifyLine(geometry.coordinates as Ring, tolerance) };
+    case 'Polygon':
+      return { type: 'Polygon', coordinates: (geometry.coordinates as Ring[]).map((ring) => simplifyRing(ring, tolerance)) };
+    case 'MultiPolygon':
+      return {
+        type: 'MultiPolygon',
+        coordinates: (geometry.coordinates as Ring[][]).map((polygon) => polygon.map((ring) => simplifyRing(ring, tolerance))),
+      };
+    default:
+      return geometry;
+  }
+}
+
+export interface LineSample {
+  position: Position;
+  distance: number; // Meters from the start of the line
+}
+
+// Evenly spaced samples along a projected polyline, always including both end points
+export function sampleLine(line: Ring, spacing: number): LineSample[] {
+  const samples: LineSample[] = [{ position: line[0], distance: 0 }];
+  let segmentStart = 0;
+  let nextDistance = spacing;
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const [x1, y1] = line[i];
+    const [x2, y2] = line[i + 1];
+    const segmentLength = Math.hypot(x2 - x1, y2 - y1);
+
+    while (nextDistance < segmentStart + segmentLength) {
+      const t = (nextDistance - segmentStart) / segmentLength;
+      samples.push({ position: [x1 + t * (x2 - x1), y1 + t * (y2 - y1)], distance: nextDistance });
+      nextDistance += spacing;
+    }
+    segmentStart += segmentLength;
+  }
+
+  if (segmentStart > samples[samples.length - 1].distance) {
+    samples.push({ position: line[line.length - 1], distance: segmentStart });
+  }
+  return samples;
+}
+
+// Even-odd rule over all rings, so holes are excluded
+function pointInRings(x: number, y: number, rings: Ring[]): boolean {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+export function pointInGeometry(position: Position, geometry: GeoJsonGeometry): boolean {
+  return polygonsOf(geometry).some((rings) => pointInRings(position[0], position[1], rings));
+}
+
+export function bboxPolygon({ minX, minY, maxX, maxY }: BoundingBox): GeoJsonGeometry {
+  return {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [minX, minY],
+        [maxX, minY],
+        [maxX, maxY],
+        [minX, maxY],
+        [minX, minY],
+      ],
+    ],
+  };
+}
+
+export function geometryBbox(geometry: GeoJsonGeometry): BoundingBox {
+  const bbox = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  mapGeometryPositions(geometry, ([x, y]) => {
+    bbox.minX = Math.min(bbox.minX, x);
+    bbox.minY = Math.min(bbox.minY, y);
+    bbox.maxX = Math.max(bbox.maxX, x);
+    bbox.maxY = Math.max(bbox.maxY, y);
+    return [x, y];
+  });
+  return bbox;
+}
+
+// A point guaranteed to lie inside a (Multi)Polygon: the middle of the widest interior span on the horizontal
+// line through the largest polygon's bbox centre. Centroids can fall outside concave or holed parcels
+export function interiorPoint(geometry: GeoJsonGeometry): Position {
+  if (geometry.type === 'Point') return geometry.coordinates as Position;
+
+  const polygons = polygonsOf(geometry);
+  if (polygons.length === 0) {
+    const line = geometry.coordinates as Ring;
+    return line[Math.floor(line.length / 2)];
+  }
+
+  const rings = polygons.reduce((largest, polygon) => (ringArea(polygon[0]) > ringArea(largest[0]) ? polygon : largest));
+  const bbox = geometryBbox({ type: 'Polygon', coordinates: rings });
+  const y = (bbox.minY + bbox.maxY) / 2;
+
+  const crossings: number[] = [];
+  for (const ring of rings) {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const [x1, y1] = ring[i];
+      const [x2, y2] = ring[i + 1];
+      if (y1 > y !== y2 > y) crossings.push(x1 + ((y - y1) * (x2 - x1)) / (y2 - y1));
+    }
+  }
+  crossings.sort((a, b) => a - b);
+
+  // Crossings pair up into inside spans under the even-odd rule
+  let best: Position = [(bbox.minX + bbox.maxX) / 2, y];
+  let bestWidth = 0;
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    if (crossings[i + 1] - crossings[i] > bestWidth) {
+      bestWidth = crossings[i + 1] - crossings[i];
+      best = [(crossings[i] + crossings[i + 1]) / 2, y];
+    }
+  }
+  return best;
+}
+
+// Every edge of a geometry as [start, end]; a Point is a zero-length edge
+function edgesOf(geometry: GeoJsonGeometry): Array<[Position, Position]> {
+  if (geometry.type === 'Point') {
+    const point = geometry.coordinates as Position;
+    return [[point, point]];
+  }
+  const lines = geometry.type === 'LineString' ? [geometry.coordinates as Ring] : polygonsOf(geometry).flat();
+  return lines.flatMap((line) => line.slice(1).map((end, i): [Position, Position] => [line[i], end]));
+}
+
+function closestOnSegment(p: Position, a: Position, b: Position): Position {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared));
+  return [a[0] + t * dx, a[1] + t * dy];
+}
+
+function segmentsCross(a: Position, b: Position, c: Position, d: Position): Position | null {
+  const denominator = (b[0] - a[0]) * (d[1] - c[1]) - (b[1] - a[1]) * (d[0] - c[0]);
+  if (denominator === 0) return null;
+  const t = ((c[0] - a[0]) * (d[1] - c[1]) - (c[1] - a[1]) * (d[0] - c[0])) / denominator;
+  const u = ((c[0] - a[0]) * (b[1] - a[1]) - (c[1] - a[1]) * (b[0] - a[0])) / denominator;
+  return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])] : null;
+}
+
+function edgeBox(a: Position, b: Position): BoundingBox {
+  return {
+    minX: Math.min(a[0], b[0]),
+    minY: Math.min(a[1], b[1]),
+    maxX: Math.max(a[0], b[0]),
+    maxY: Math.max(a[1], b[1]),
+  };
+}
+
+export interface ClosestPoints {
+  distance: number;
+  from: Position; // On the first geometry
+  to: Position; // On the second geometry
+}
+
+// Shortest distance between the boundaries/lines of two projected geometries. Overlapping geometries (one inside
+// a polygon of the other, or crossing edges) are at distance 0
+export function closestPoints(a: GeoJsonGeometry, b: GeoJsonGeometry): ClosestPoints {
+  const edgesA = edgesOf(a);
+  const edgesB = edgesOf(b);
+
+  const firstA = edgesA[0][0];
+  if (pointInGeometry(firstA, b)) return { distance: 0, from: firstA, to: firstA };
+  const firstB = edgesB[0][0];
+  if (pointInGeometry(firstB, a)) return { distance: 0, from: firstB, to: firstB };
+
+  let best: ClosestPoints = { distance: Math.hypot(firstB[0] - firstA[0], firstB[1] - firstA[1]), from: firstA, to: firstB };
+  const consider = (from: Position, to: Position) => {
+    const distance = Math.hypot(to[0] - from[0], to[1] - from[1]);
+    if (distance < best.distance) best = { distance, from, to };
+  };
+
+  const boxesB = edgesB.map(([r, s]) => edgeBox(r, s));
+
+  // Two segments that do not cross are closest at one of their four end points
+  for (const [p, q] of edgesA) {
+    const boxA = edgeBox(p, q);
+    for (let i = 0; i < edgesB.length; i++) {
+      // Edge pairs whose boxes are already further apart than the best distance can't improve it
+      const boxB = boxesB[i];
+      const gapX = Math.max(0, boxA.minX - boxB.maxX, boxB.minX - boxA.maxX);
+      const gapY = Math.max(0, boxA.minY - boxB.maxY, boxB.minY - boxA.maxY);
+      if (gapX >= best.distance || gapY >= best.distance || Math.hypot(gapX, gapY) >= best.distance) continue;
+
+      const [r, s] = edgesB[i];
+      const crossing = segmentsCross(p, q, r, s);
+      if (crossing) return { distance: 0, from: crossing, to: crossing };
+      consider(p, closestOnSegment(p, r, s));
+      consider(q, closestOnSegment(q, r, s));
+      consider(closestOnSegment(r, p, q), r);
+      consider(closestOnSegment(s, p, q), s);
+    }
+  }
+  return best;
+}
+
+// Length of boundary two polygons have in common: edges of a that run along edges of b within tolerance meters.
+// Parcels touching only at a corner share 0 m
+export function sharedBoundaryLength(a: GeoJsonGeometry, b: GeoJsonGeometry, tolerance: number = 0.5): number {
+  const edgesB = edgesOf(b);
+  let shared = 0;
+
+  for (const [p, q] of edgesOf(a)) {
+    const length = Math.hypot(q[0] - p[0], q[1] - p[1]);
+    if (length === 0) continue;
+    const ux = (q[0] - p[0]) / length;
+    const uy = (q[1] - p[1]) / length;
+
+    // Collect the stretches of this edge covered by collinear edges of b, then merge them
+    const covered: Array<[number, number]> = [];
+    for (const [r, s] of edgesB) {
+      const offsetR = Math.abs((r[0] - p[0]) * uy - (r[1] - p[1]) * ux);
+      const offsetS = Math.abs((s[0] - p[0]) * uy - (s[1] - p[1]) * ux);
+      if (offsetR > tolerance || offsetS > tolerance) continue;
+
+      const alongR = (r[0] - p[0]) * ux + (r[1] - p[1]) * uy;
+      const alongS = (s[0] - p[0]) * ux + (s[1] - p[1]) * uy;
+      const start = Math.max(0, Math.min(alongR, alongS));
+      const end = Math.min(length, Math.max(alongR, alongS));
+      if (end > start) covered.push([start, end]);
+    }
+
+    covered.sort((x, y) => x[0] - y[0]);
+    let reach = 0;
+    for (const [start, end] of covered) {
+      if (end > reach) {
+        shared += end - Math.max(start, reach);
+        reach = end;
+      }
+    }
+  }
+  return shared;
+}
+
+// Shortest distance from a position to a polyline
+export function distanceToLine(position: Position, line: Ring): number {
+  let best = Infinity;
+  for (let i = 0; i < line.length - 1; i++) {
+    const [x, y] = closestOnSegment(position, line[i], line[i + 1]);
+    best = Math.min(best, Math.hypot(position[0] - x, position[1] - y));
+  }
+  return line.length === 1 ? Math.hypot(position[0] - line[0][0], position[1] - line[0][1]) : best;
+}
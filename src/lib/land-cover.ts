@@ -0,0 +1,88 @@
+import { rasterizeGeometry, type RasterGrid } from './raster';
+import type { LandCoverFeature } from '@/types/lantmateriet';
+
+export const LAND_COVER_CATEGORIES = ['forest', 'wetland', 'arable', 'built_up', 'water', 'open_land', 'other'] as const;
+export type LandCoverCategory = (typeof LAND_COVER_CATEGORIES)[number];
+
+// Marktäcke classes (objekttyp) grouped into the categories used for screening. Checked in order
+const CATEGORY_PATTERNS: Array<[LandCoverCategory, RegExp]> = [
+  ['water', /sjö|hav|vatten/i],
+  ['wetland', /sankmark|myr|mosse|kärr/i],
+  ['built_up', /bebyggelse|industri|anlagd|tätort/i],
+  ['arable', /åker|odling/i],
+  ['forest', /skog/i],
+  ['open_land', /öppen mark|kalfjäll|fjäll|hed|gräs/i],
+];
+
+export function landCoverCategory(objekttyp: string): LandCoverCategory {
+  return CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(objekttyp))?.[0] ?? 'other';
+}
+
+export interface LandCoverClassArea {
+  objekttyp: string;
+  category: LandCoverCategory;
+  cellCount: number;
+}
+
+export interface LandCoverBreakdown {
+  cellCount: number; // Cells inside the query area
+  classes: LandCoverClassArea[]; // Largest first
+  unclassifiedCellCount: number;
+}
+
+// Counts, per Marktäcke class, the cells inside mask covered by that class. Marktäcke is a tessellation,
+// so where features overlap at the seams the later one wins
+export function landCoverBreakdown(grid: RasterGrid, mask: Uint8Array, features: LandCoverFeature[]): LandCoverBreakdown {
+  const classNames = [...new Set(features.map((f) => f.objekttyp))];
+  const classIndex = new Map(classNames.map((name, i) => [name, i]));
+
+  const cells = new Int32Array(grid.width * grid.height).fill(-1);
+  for (const feature of features) {
+    rasterizeGeometry(grid, feature.geometry, cells, classIndex.get(feature.objekttyp)!);
+  }
+
+  const counts = new Array<number>(classNames.length).fill(0);
+  let cellCount = 0;
+  let unclassifiedCellCount = 0;
+  for (let i = 0; i < cells.length; i++) {
+    if (!mask[i]) continue;
+    cellCount++;
+    if (cells[i] < 0) unclassifiedCellCount++;
+    else counts[cells[i]]++;
+  }
+
+  const classes = classNames
+    .map((objekttyp, i) => ({ objekttyp, category: landCoverCategory(objekttyp), cellCount: counts[i] }))
+    .filter((c) => c.cellCount > 0)
+    .sort((a, b) => b.cellCount - a.cellCount);
+
+  return { cellCount, classes, unclassifiedCellCount };
+}
+
+export interface AreaShare {
+  area_square_meters: number;
+  percent: number;
+}
+
+// Per-category and per-class shares of an area. Cell counts are scaled to the exact area so the parts add up to
+// the whole; every category is listed, largest first
+export function summarizeLandCover(breakdown: LandCoverBreakdown, area: number) {
+  const cellArea = area / breakdown.cellCount;
+  const share = (cells: number): AreaShare => ({
+    area_square_meters: Math.round(cells * cellArea),
+    percent: Math.round((cells / breakdown.cellCount) * 10000) / 100,
+  });
+
+  const categoryCells = new Map<LandCoverCategory, number>(LAND_COVER_CATEGORIES.map((c) => [c, 0]));
+  for (const c of breakdown.classes) {
+    categoryCells.set(c.category, categoryCells.get(c.category)! + c.cellCount);
+  }
+
+  return {
+    categories: [...categoryCells]
+      .map(([category, cells]) => ({ category, ...share(cells) }))
+      .sort((a, b) => b.area_square_meters - a.area_square_meters),
+    classes: breakdown.classes.map((c) => ({ class: c.objekttyp, category: c.category, ...share(c.cellCount) })),
+    unclassified: breakdown.unclassifiedCellCount > 0 ? share(breakdown.unclassifiedCellCount) : undefined,
+  };
+}
@@ -0,0 +1,123 @@
+import sharp from 'sharp';
+import type { BoundingBox } from './coordinates';
+import { polygonsOf, type Position, type Ring } from './geometry';
+import { rangeBbox, tileResolution, TILE_SIZE, type TileAddress, type TileRange } from './wmts';
+import type { GeoJsonGeometry } from '@/types/lantmateriet';
+
+export const LANTMATERIET_ATTRIBUTION = '© Lantmäteriet, CC BY 4.0';
+
+const OVERLAY_STYLE = {
+  polygon: 'fill="#ff3b30" fill-opacity="0.15" stroke="#ff3b30" stroke-width="3" stroke-linejoin="round"',
+  line: 'fill="none" stroke="#0a84ff" stroke-width="4" stroke-linejoin="round" stroke-linecap="round"',
+  marker: 'r="7" fill="#ff3b30" stroke="#ffffff" stroke-width="2"',
+};
+
+export interface RenderedImage {
+  png: Buffer;
+  width: number;
+  height: number;
+}
+
+// Pastes fetched tiles into one mosaic and crops it to bbox. Missing tiles (null) are left white
+export async function stitchTiles(
+  range: TileRange,
+  tiles: Array<{ tile: TileAddress; image: Buffer | null }>,
+  bbox: BoundingBox,
+): Promise<RenderedImage> {
+  const cols = range.maxCol - range.minCol + 1;
+  const rows = range.maxRow - range.minRow + 1;
+
+  const mosaic = await sharp({
+    create: { width: cols * TILE_SIZE, height: rows * TILE_SIZE, channels: 4, background: '#ffffff' },
+  })
+    .composite(
+      tiles
+        .filter((t): t is { tile: TileAddress; image: Buffer } => t.image !== null)
+        .map(({ tile, image }) => ({
+          input: image,
+          left: (tile.col - range.minCol) * TILE_SIZE,
+          top: (tile.row - range.minRow) * TILE_SIZE,
+        })),
+    )
+    .png()
+    .toBuffer();
+
+  // Crop happens in a second pass because sharp applies extract before composite within one pipeline
+  const resolution = tileResolution(range.zoom);
+  const extent = rangeBbox(range);
+  const left = Math.max(0, Math.round((bbox.minX - extent.minX) / resolution));
+  const top = Math.max(0, Math.round((extent.maxY - bbox.maxY) / resolution));
+  const width = Math.max(1, Math.min(cols * TILE_SIZE - left, Math.round((bbox.maxX - bbox.minX) / resolution)));
+  const height = Math.max(1, Math.min(rows * TILE_SIZE - top, Math.round((bbox.maxY - bbox.minY) / resolution)));
+
+  const png = await sharp(mosaic).extract({ left, top, width, height }).png().toBuffer();
+  return { png, width, height };
+}
+
+// Draws extra image layers (e.g. the property WMS, already covering bbox) and SWEREF99 TM geometries on a map,
+// then burns in the attribution
+export async function composeMap(
+  base: RenderedImage,
+  bbox: BoundingBox,
+  options: { layers?: Buffer[]; geometries?: GeoJsonGeometry[]; attribution?: string } = {},
+): Promise<RenderedImage> {
+  const { width, height } = base;
+  const layers = await Promise.all(
+    (options.layers ?? []).map(async (layer) => ({
+      input: await sharp(layer).resize(width, height, { fit: 'fill' }).png().toBuffer(),
+    })),
+  );
+  const svg = overlaySvg(width, height, bbox, options.geometries ?? [], options.attribution ?? LANTMATERIET_ATTRIBUTION);
+
+  const png = await sharp(base.png)
+    .composite([...layers, { input: Buffer.from(svg) }])
+    .png()
+    .toBuffer();
+  return { png, width, height };
+}
+
+function overlaySvg(
+  width: number,
+  height: number,
+  bbox: BoundingBox,
+  geometries: GeoJsonGeometry[],
+  attribution: string,
+): string {
+  const scaleX = width / (bbox.maxX - bbox.minX);
+  const scaleY = height / (bbox.maxY - bbox.minY);
+  const toPixel = ([x, y]: Position) => `${((x - bbox.minX) * scaleX).toFixed(1)},${((bbox.maxY - y) * scaleY).toFixed(1)}`;
+  const ringPath = (ring: Ring) => `M${ring.map(toPixel).join('L')}Z`;
+
+  const shapes: string[] = [];
+  // Areas first so lines and markers stay visible on top
+  for (const geometry of geometries) {
+    for (const polygon of polygonsOf(geometry)) {
+      shapes.push(`<path d="${polygon.map(ringPath).join('')}" fill-rule="evenodd" ${OVERLAY_STYLE.polygon}/>`);
+    }
+  }
+  for (const geometry of geometries) {
+    if (geometry.type === 'LineString') {
+      shapes.push(`<polyline points="${(geometry.coordinates as Ring).map(toPixel).join(' ')}" ${OVERLAY_STYLE.line}/>`);
+    }
+  }
+  for (const geometry of geometries) {
+    if (geometry.type === 'Point') {
+      const [cx, cy] = toPixel(geometry.coordinates as Position).split(',');
+      shapes.push(`<circle cx="${cx}" cy="${cy}" ${OVERLAY_STYLE.marker}/>`);
+    }
+  }
+
+  // Rough text width for a 12 px sans-serif font; the box only has to fit, not be exact
+  const boxWidth = Math.ceil(attribution.length * 6.5) + 12;
+  shapes.push(
+    `<rect x="${width - boxWidth}" y="${height - 20}" width="${boxWidth}" height="20" fill="#ffffff" fill-opacity="0.75"/>`,
+    `<text x="${width - 6}" y="${height - 6}" text-anchor="end" font-family="sans-serif" font-size="12" fill="#222222">` +
+      `${escapeXml(attribution)}</text>`,
+  );
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes.join('')}</svg>`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
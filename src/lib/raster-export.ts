@@ -0,0 +1,183 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { writeArrayBuffer } from 'geotiff';
+import sharp from 'sharp';
+import type { RasterGrid } from './raster';
+import { publicBaseUrl } from './tile-proxy';
+
+export const EXPORT_FORMATS = ['geotiff', 'png'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export type ExportDataType = 'uint8' | 'float32';
+
+// Path prefix of the download route (src/app/exports/[file]/route.ts)
+export const EXPORT_PATH = '/exports';
+
+// Exports are kept for a day; every new export sweeps out the expired ones
+export const EXPORT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Serverless instances only have a writable /tmp; point this at shared storage when running several instances
+const EXPORT_DIR = process.env.RASTER_EXPORT_DIR || join(tmpdir(), 'lantmateriet-exports');
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; contentType: string }> = {
+  geotiff: { extension: 'tif', contentType: 'image/tiff' },
+  png: { extension: 'png', contentType: 'image/png' },
+};
+const FILE_NAME_PATTERN = /^[\w-]+\.(tif|png)$/;
+
+// GDAL_NODATA value written to GeoTIFFs per data type
+export const NO_DATA: Record<ExportDataType, number> = { uint8: 0, float32: -9999 };
+
+// SWEREF99 TM GeoTIFF, pixel-interleaved and uncompressed. 8-bit data reserves 0 for no-data, so black
+// pixels are written as 1
+export function encodeGeoTiff(grid: RasterGrid, dataType: ExportDataType): Buffer {
+  const { width, height, bands } = grid;
+  const cells = width * height;
+  const noData = NO_DATA[dataType];
+  const values = dataType === 'uint8' ? new Uint8Array(cells * bands.length) : new Float32Array(cells * bands.length);
+
+  for (let i = 0; i < cells; i++) {
+    for (let b = 0; b < bands.length; b++) {
+      const value = bands[b][i];
+      values[i * bands.length + b] = Number.isNaN(value)
+        ? noData
+        : dataType === 'uint8'
+          ? Math.min(255, Math.max(1, Math.round(value)))
+          : value;
+    }
+  }
+
+  const buffer = writeArrayBuffer(values, {
+    width,
+    height,
+    SamplesPerPixel: [bands.length],
+    ModelPixelScale: [grid.resolution, grid.resolution, 0],
+    ModelTiepoint: [0, 0, 0, grid.bbox.minX, grid.bbox.maxY, 0],
+    ProjectedCSTypeGeoKey: 3006,
+    GTModelTypeGeoKey: 1, // Projected
+    GTRasterTypeGeoKey: 1, // PixelIsArea
+    GDAL_NODATA: String(noData),
+  });
+  return Buffer.from(buffer);
+}
+
+// Quick-look image: three or more bands as RGB, a single band stretched to grey between its min and max.
+// No-data cells are transparent
+export async function encodePreviewPng(grid: RasterGrid): Promise<Buffer> {
+  const { width, height } = grid;
+  const bands = grid.bands.length >= 3 ? grid.bands.slice(0, 3) : [grid.bands[0], grid.bands[0], grid.bands[0]];
+
+  let min = Infinity;
+  let max = -Infinity;
+  if (grid.bands.length < 3) {
+    for (const value of grid.bands[0]) {
+      if (Number.isNaN(value)) continue;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+  }
+  const scale = (value: number) => (grid.bands.length >= 3 ? value : max > min ? ((value - min) / (max - min)) * 255 : 128);
+
+  const rgba = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const valid = bands.every((band) => !Number.isNaN(band[i]));
+    for (let c = 0; c < 3; c++) {
+      rgba[i * 4 + c] = valid ? Math.min(255, Math.max(0, Math.round(scale(bands[c][i])))) : 0;
+    }
+    rgba[i * 4 + 3] = valid ? 255 : 0;
+  }
+
+  return sharp(rgba, { raw: { width, height, channels: 4 } })
+    .png()
+    .toBuffer();
+}
+
+// Value and the RGB colour at that value; values between stops are interpolated, outside clamped
+export type ColorStop = [number, [number, number, number]];
+
+function rampColor(value: number, ramp: ColorStop[]): [number, number, number] {
+  if (value <= ramp[0][0]) return ramp[0][1];
+  for (let i = 1; i < ramp.length; i++) {
+    const [to, toColor] = ramp[i];
+    if (value > to) continue;
+    const [from, fromColor] = ramp[i - 1];
+    const t = (value - from) / (to - from);
+    return [0, 1, 2].map((c) => Math.round(fromColor[c] + t * (toColor[c] - fromColor[c]))) as [number, number, number];
+  }
+  return ramp[ramp.length - 1][1];
+}
+
+// Single-band values (e.g. NDVI) coloured through a ramp; NaN cells are transparent
+export async function encodeColorMappedPng(
+  values: Float32Array,
+  width: number,
+  height: number,
+  ramp: ColorStop[],
+): Promise<Buffer> {
+  const rgba = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    if (Number.isNaN(values[i])) continue;
+    rgba.set([...rampColor(values[i], ramp), 255], i * 4);
+  }
+  return sharp(rgba, { raw: { width, height, channels: 4 } })
+    .png()
+    .toBuffer();
+}
+
+export interface StoredExport {
+  fileName: string;
+  url?: string; // Only when a public base URL is configured
+  sizeBytes: number;
+  contentType: string;
+  expiresAt: string;
+}
+
+// Removal failures are harmless; the file is tried again on the next sweep. Other files in the directory are left alone
+async function removeExpiredExports(): Promise<void> {
+  try {
+    for (const name of await readdir(EXPORT_DIR)) {
+      if (!FILE_NAME_PATTERN.test(name)) continue;
+      const path = join(EXPORT_DIR, name);
+      const info = await stat(path);
+      if (Date.now() - info.mtimeMs > EXPORT_TTL_MS) await unlink(path);
+    }
+  } catch (error) {
+    console.error('Export cleanup failed:', error);
+  }
+}
+
+// File names are random, so a download URL can only be found through the tool response
+export async function storeExport(body: Buffer, format: ExportFormat, prefix: string): Promise<StoredExport> {
+  const { extension, contentType } = FILE_TYPES[format];
+  const fileName = `${prefix.replace(/[^\w-]/g, '')}-${randomUUID()}.${extension}`;
+  const path = join(EXPORT_DIR, fileName);
+
+  await mkdir(EXPORT_DIR, { recursive: true });
+  await removeExpiredExports();
+  await writeFile(path, body);
+
+  const base = publicBaseUrl();
+  return {
+    fileName,
+    url: base ? `${base}${EXPORT_PATH}/${fileName}` : undefined,
+    sizeBytes: body.length,
+    contentType,
+    expiresAt: new Date(Date.now() + EXPORT_TTL_MS).toISOString(),
+  };
+}
+
+// null for unknown, expired or malformed names, so paths outside the export directory can't be read
+export async function readExport(fileName: string): Promise<{ body: Buffer; contentType: string } | null> {
+  if (!FILE_NAME_PATTERN.test(fileName)) return null;
+
+  try {
+    const path = join(EXPORT_DIR, fileName);
+    const info = await stat(path);
+    if (Date.now() - info.mtimeMs > EXPORT_TTL_MS) return null;
+    const format = fileName.endsWith('.png') ? 'png' : 'geotiff';
+    return { body: await readFile(path), contentType: FILE_TYPES[format].contentType };
+  } catch {
+    return null;
+  }
+}
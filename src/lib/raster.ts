@@ -0,0 +1,272 @@
+import { fromFile, fromUrl, type GeoTIFF } from 'geotiff';
+import type { BoundingBox } from './coordinates';
+import { geometryArea, geometryBbox, interiorPoint, pointInGeometry, polygonsOf, type Position, type Ring } from './geometry';
+import type { GeoJsonGeometry } from '@/types/lantmateriet';
+
+// Row-major, north-up raster in SWEREF99 TM; no-data cells are NaN
+export interface RasterGrid {
+  bands: Float32Array[];
+  width: number;
+  height: number;
+  bbox: BoundingBox;
+  resolution: number; // Meters per cell
+}
+
+// Remote COGs are read with HTTP range requests; anything else is treated as a local file path
+export function openGeoTiff(source: string, headers?: Record<string, string>): Promise<GeoTIFF> {
+  if (/^https?:\/\//.test(source)) {
+    return fromUrl(source, { headers, allowFullFile: false });
+  }
+  return fromFile(source);
+}
+
+// Grid extent snapped outwards to whole cells so tiles on round-meter boundaries line up with the grid
+export function alignBbox(bbox: BoundingBox, resolution: number): BoundingBox {
+  return {
+    minX: Math.floor(bbox.minX / resolution) * resolution,
+    minY: Math.floor(bbox.minY / resolution) * resolution,
+    maxX: Math.ceil(bbox.maxX / resolution) * resolution,
+    maxY: Math.ceil(bbox.maxY / resolution) * resolution,
+  };
+}
+
+// Smallest "nice" cell size that keeps the grid under maxCells
+export function chooseResolution(bbox: BoundingBox, minResolution: number, maxCells: number): number {
+  const area = (bbox.maxX - bbox.minX) * (bbox.maxY - bbox.minY);
+  const needed = Math.max(minResolution, Math.sqrt(area / maxCells));
+  const steps = [0.25, 0.5, 1, 2, 5, 10, 20, 25, 50, 100, 200, 250, 500, 1000];
+  return steps.find((step) => step >= needed) ?? needed;
+}
+
+export function createGrid(bbox: BoundingBox, resolution: number, bandCount: number = 1): RasterGrid {
+  const aligned = alignBbox(bbox, resolution);
+  const width = Math.round((aligned.maxX - aligned.minX) / resolution);
+  const height = Math.round((aligned.maxY - aligned.minY) / resolution);
+  const bands = Array.from({ length: bandCount }, () => new Float32Array(width * height).fill(NaN));
+  return { bands, width, height, bbox: aligned, resolution };
+}
+
+// Pastes the part of one GeoTIFF that overlaps the grid; only the tiles/overview level needed are fetched
+export async function readIntoGrid(tiff: GeoTIFF, grid: RasterGrid, samples?: number[]): Promise<boolean> {
+  const image = await tiff.getImage();
+  const [imgMinX, imgMinY, imgMaxX, imgMaxY] = image.getBoundingBox();
+  const { resolution, bbox } = grid;
+
+  const col0 = Math.max(0, Math.ceil((imgMinX - bbox.minX) / resolution - 1e-6));
+  const col1 = Math.min(grid.width, Math.floor((imgMaxX - bbox.minX) / resolution + 1e-6));
+  const row0 = Math.max(0, Math.ceil((bbox.maxY - imgMaxY) / resolution - 1e-6));
+  const row1 = Math.min(grid.height, Math.floor((bbox.maxY - imgMinY) / resolution + 1e-6));
+  if (col0 >= col1 || row0 >= row1) return false;
+
+  const width = col1 - col0;
+  const height = row1 - row0;
+  const bandSamples = samples ?? grid.bands.map((_, i) => i);
+  const rasters = (await tiff.readRasters({
+    bbox: [
+      bbox.minX + col0 * resolution,
+      bbox.maxY - row1 * resolution,
+      bbox.minX + col1 * resolution,
+      bbox.maxY - row0 * resolution,
+    ],
+    width,
+    height,
+    samples: bandSamples,
+    interleave: false,
+    resampleMethod: 'bilinear',
+  })) as unknown as ArrayLike<number>[];
+
+  const noData = image.getGDALNoData();
+  for (let b = 0; b < grid.bands.length; b++) {
+    const source = rasters[b];
+    const target = grid.bands[b];
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        const value = source[row * width + col];
+        if (value === noData || Number.isNaN(value)) continue;
+        target[(row0 + row) * grid.width + col0 + col] = value;
+      }
+    }
+  }
+  return true;
+}
+
+// Mosaics several GeoTIFFs (e.g. the COG tiles from a STAC search) into one grid over bbox
+export async function readMosaic(
+  sources: string[],
+  bbox: BoundingBox,
+  resolution: number,
+  options: { headers?: Record<string, string>; bandCount?: number; samples?: number[] } = {},
+): Promise<RasterGrid & { usedSources: string[] }> {
+  const { headers, samples } = options;
+  const grid = createGrid(bbox, resolution, options.bandCount ?? samples?.length ?? 1);
+  const usedSources: string[] = [];
+
+  for (const source of sources) {
+    const tiff = await openGeoTiff(source, headers);
+    try {
+      if (await readIntoGrid(tiff, grid, samples)) usedSources.push(source);
+    } finally {
+      await tiff.close();
+    }
+  }
+
+  return { ...grid, usedSources };
+}
+
+// Writes value into every cell whose center lies inside the (Multi)Polygon. Scanline fill, so cost grows with
+// rows x vertices rather than cells x vertices like per-cell point-in-polygon tests
+export function rasterizeGeometry(
+  grid: RasterGrid,
+  geometry: GeoJsonGeometry,
+  target: Int32Array | Uint8Array,
+  value: number,
+): void {
+  const { bbox, resolution, width, height } = grid;
+
+  for (const rings of polygonsOf(geometry)) {
+    const top = rings[0].reduce((max, position) => Math.max(max, position[1]), -Infinity);
+    const bottom = rings[0].reduce((min, position) => Math.min(min, position[1]), Infinity);
+    const firstRow = Math.max(0, Math.floor((bbox.maxY - top) / resolution));
+    const lastRow = Math.min(height - 1, Math.ceil((bbox.maxY - bottom) / resolution));
+
+    for (let row = firstRow; row <= lastRow; row++) {
+      const y = bbox.maxY - (row + 0.5) * resolution;
+      const crossings: number[] = [];
+      for (const ring of rings) {
+        for (let i = 0; i < ring.length - 1; i++) {
+          const [x1, y1] = ring[i];
+          const [x2, y2] = ring[i + 1];
+          if (y1 > y !== y2 > y) crossings.push(x1 + ((y - y1) * (x2 - x1)) / (y2 - y1));
+        }
+      }
+      crossings.sort((a, b) => a - b);
+
+      // Even-odd pairs of crossings bound the inside spans, so holes stay empty
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const firstCol = Math.max(0, Math.ceil((crossings[i] - bbox.minX) / resolution - 0.5));
+        const lastCol = Math.min(width - 1, Math.ceil((crossings[i + 1] - bbox.minX) / resolution - 0.5) - 1);
+        if (lastCol >= firstCol) target.fill(value, row * width + firstCol, row * width + lastCol + 1);
+      }
+    }
+  }
+}
+
+// Part of a polygon's area for which contains() holds, estimated on a grid of at most maxCells over the polygon.
+// The cell share is scaled by the exact polygon area, so a polygon entirely inside yields its exact area
+export function intersectionArea(
+  geometry: GeoJsonGeometry,
+  contains: (position: Position) => boolean,
+  options: { minResolution?: number; maxCells?: number } = {},
+): number {
+  const bbox = geometryBbox(geometry);
+  const grid = createGrid(bbox, chooseResolution(bbox, options.minResolution ?? 0.5, options.maxCells ?? 40_000), 0);
+  const cells = new Int32Array(grid.width * grid.height);
+  rasterizeGeometry(grid, geometry, cells, 1);
+
+  let polygonCells = 0;
+  let insideCells = 0;
+  for (let row = 0; row < grid.height; row++) {
+    for (let col = 0; col < grid.width; col++) {
+      if (!cells[row * grid.width + col]) continue;
+      polygonCells++;
+      if (contains(cellCenter(grid, col, row))) insideCells++;
+    }
+  }
+  // Slivers narrower than a cell hit no cell centers; they count whole or not at all
+  if (polygonCells === 0) return contains(interiorPoint(geometry)) ? geometryArea(geometry) : 0;
+  return (insideCells / polygonCells) * geometryArea(geometry);
+}
+
+// Sets every cell whose center lies outside the (Multi)Polygon to no-data, in all bands
+export function clipGridToGeometry(grid: RasterGrid, geometry: GeoJsonGeometry): void {
+  const inside = new Int32Array(grid.width * grid.height);
+  rasterizeGeometry(grid, geometry, inside, 1);
+  for (const band of grid.bands) {
+    for (let i = 0; i < inside.length; i++) {
+      if (!inside[i]) band[i] = NaN;
+    }
+  }
+}
+
+function signedArea(ring: Ring): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return sum / 2;
+}
+
+// Outline of the cells where mask is set, as a (Multi)Polygon with holes; null when no cell is set.
+// Boundary edges are collected with the set cell on their left, so outer rings run counter-clockwise and holes
+// clockwise, then chained into rings on the cell corners
+export function vectorizeMask(grid: RasterGrid, mask: Uint8Array): GeoJsonGeometry | null {
+  const { width, height } = grid;
+  const isSet = (col: number, row: number) =>
+    col >= 0 && row >= 0 && col < width && row < height && mask[row * width + col] === 1;
+  const corner = (col: number, row: number) => row * (width + 1) + col;
+
+  // Outgoing edges per corner, as the corner each one leads to
+  const outgoing = new Map<number, number[]>();
+  const addEdge = (from: number, to: number) => {
+    const list = outgoing.get(from);
+    if (list) list.push(to);
+    else outgoing.set(from, [to]);
+  };
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (!isSet(col, row)) continue;
+      if (!isSet(col, row + 1)) addEdge(corner(col, row + 1), corner(col + 1, row + 1));
+      if (!isSet(col + 1, row)) addEdge(corner(col + 1, row + 1), corner(col + 1, row));
+      if (!isSet(col, row - 1)) addEdge(corner(col + 1, row), corner(col, row));
+      if (!isSet(col - 1, row)) addEdge(corner(col, row), corner(col, row + 1));
+    }
+  }
+
+  const toPosition = (index: number): Position => [
+    grid.bbox.minX + (index % (width + 1)) * grid.resolution,
+    grid.bbox.maxY - Math.floor(index / (width + 1)) * grid.resolution,
+  ];
+
+  const outers: Ring[] = [];
+  const holes: Ring[] = [];
+  for (const [start, targets] of outgoing) {
+    while (targets.length > 0) {
+      const corners = [start];
+      let current = targets.pop()!;
+      while (current !== start) {
+        corners.push(current);
+        current = outgoing.get(current)!.pop()!;
+      }
+
+      // Only corners where the boundary turns are kept, including at the start
+      const positions = corners.map(toPosition);
+      const ring = positions.filter((p, i) => {
+        const prev = positions[(i + positions.length - 1) % positions.length];
+        const next = positions[(i + 1) % positions.length];
+        return (p[0] - prev[0]) * (next[1] - p[1]) !== (p[1] - prev[1]) * (next[0] - p[0]);
+      });
+      ring.push(ring[0]);
+      (signedArea(ring) > 0 ? outers : holes).push(ring);
+    }
+  }
+  if (outers.length === 0) return null;
+
+  // Each hole goes with the smallest outer ring around the midpoint of its first edge
+  const polygons = outers.map((outer) => ({ rings: [outer], area: signedArea(outer) }));
+  for (const hole of holes) {
+    const probe: Position = [(hole[0][0] + hole[1][0]) / 2, (hole[0][1] + hole[1][1]) / 2];
+    const owner = polygons
+      .filter((p) => pointInGeometry(probe, { type: 'Polygon', coordinates: [p.rings[0]] }))
+      .sort((a, b) => a.area - b.area)[0];
+    owner?.rings.push(hole);
+  }
+
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0].rings }
+    : { type: 'MultiPolygon', coordinates: polygons.map((p) => p.rings) };
+}
+
+// Real-world coordinate of a cell center
+export function cellCenter(grid: RasterGrid, col: number, row: number): [number, number] {
+  return [grid.bbox.minX + (col + 0.5) * grid.resolution, grid.bbox.maxY - (row + 0.5) * grid.resolution];
+}
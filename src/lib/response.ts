@@ -18,13 +18,37 @@ type TextContent = {
   text: string;
 };
 
+type ImageContent = {
+  type: 'image';
+  data: string; // Base64
+  mimeType: string;
+};
+
 interface ToolResponse {
   [key: string]: unknown;
-  content: TextContent[];
+  content: Array<TextContent | ImageContent>;
   isError?: boolean;
 }
 
+// Handlers return this to send an image alongside the usual JSON text content
+export class ImageResult {
+  constructor(
+    public readonly data: unknown,
+    public readonly image: Buffer,
+    public readonly mimeType: string = 'image/png',
+  ) {}
+}
+
 export function successResponse(data: unknown): ToolResponse {
+  if (data instanceof ImageResult) {
+    return {
+      content: [
+        { type: 'text', text: JSON.stringify(data.data, null, 2) },
+        { type: 'image', data: data.image.toString('base64'), mimeType: data.mimeType },
+      ],
+    };
+  }
+
   return {
     content: [
       {
@@ -66,3 +90,9 @@ export function withErrorHandling<T, R>(handler: (args: T) => Promise<R>): (args
     }
   };
 }
+
+// Rounds numbers in tool output to a fixed number of decimals
+export function round(value: number, decimals: number = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,145 @@
+import { ValidationError } from './errors';
+import { geometryToSweref99 } from './coordinates';
+import { geometryArea, pointInGeometry } from './geometry';
+import { intersectionArea } from './raster';
+import type { GeoJsonGeometry, StacItem, StacLink, StacSortBy } from '@/types/lantmateriet';
+
+// Item properties that sit at the top level of a STAC item rather than under "properties"
+const TOP_LEVEL_FIELDS = new Set(['id', 'collection']);
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// "2023-05-01" or a full RFC 3339 timestamp; date-only bounds cover the whole day
+function toTimestamp(value: string, field: string, endOfDay: boolean): string {
+  const trimmed = value.trim();
+  const timestamp = DATE_ONLY.test(trimmed) ? `${trimmed}T${endOfDay ? '23:59:59' : '00:00:00'}Z` : trimmed;
+  if (Number.isNaN(Date.parse(timestamp))) {
+    throw new ValidationError(`${field} must be a date (YYYY-MM-DD) or an RFC 3339 timestamp, got "${value}"`, field);
+  }
+  return timestamp;
+}
+
+// STAC datetime interval; an open end is written ".."
+export function buildStacDatetime(startDate?: string, endDate?: string): string | undefined {
+  if (!startDate && !endDate) return undefined;
+
+  const start = startDate ? toTimestamp(startDate, 'startDate', false) : '..';
+  const end = endDate ? toTimestamp(endDate, 'endDate', true) : '..';
+  if (start !== '..' && end !== '..' && Date.parse(start) > Date.parse(end)) {
+    throw new ValidationError('startDate must be before endDate', 'startDate');
+  }
+  return `${start}/${end}`;
+}
+
+// "-datetime" sorts descending, "resolution" or "+resolution" ascending
+export function parseSortBy(fields: string[]): StacSortBy[] {
+  return fields.map((raw) => {
+    const trimmed = raw.trim();
+    const direction = trimmed.startsWith('-') ? 'desc' : 'asc';
+    const name = trimmed.replace(/^[+-]/, '');
+    if (!/^[\w:.]+$/.test(name)) {
+      throw new ValidationError(`Invalid sortBy field "${raw}"`, 'sortBy');
+    }
+    const field = TOP_LEVEL_FIELDS.has(name) || name.startsWith('properties.') ? name : `properties.${name}`;
+    return { field, direction };
+  });
+}
+
+export interface StacFilterOptions {
+  minResolution?: number;
+  maxResolution?: number;
+  maxCloudCover?: number;
+  filter?: string; // Any CQL2 text expression, combined with the others using AND
+}
+
+// CQL2 text filter for the STAC filter extension, or undefined when nothing is filtered
+export function buildStacFilter(options: StacFilterOptions): string | undefined {
+  const clauses: string[] = [];
+  if (options.minResolution !== undefined) clauses.push(`resolution >= ${options.minResolution}`);
+  if (options.maxResolution !== undefined) clauses.push(`resolution <= ${options.maxResolution}`);
+  if (options.maxCloudCover !== undefined) {
+    if (options.maxCloudCover < 0 || options.maxCloudCover > 100) {
+      throw new ValidationError('maxCloudCover must be between 0 and 100 percent', 'maxCloudCover');
+    }
+    clauses.push(`"eo:cloud_cover" <= ${options.maxCloudCover}`);
+  }
+  if (options.filter?.trim()) clauses.push(`(${options.filter.trim()})`);
+
+  if (clauses.length === 0) return undefined;
+  return clauses.join(' AND ');
+}
+
+// Compared after URL normalisation so "../" segments can't leave the catalog
+function isWithin(href: string, baseUrl: string): boolean {
+  try {
+    const url = new URL(href);
+    const base = new URL(baseUrl);
+    return url.origin === base.origin && url.pathname.startsWith(`${base.pathname}/`);
+  } catch {
+    return false;
+  }
+}
+
+// The next-page link is handed to the caller as an opaque base64url token and replayed as-is
+export function encodeStacCursor(link: StacLink): string {
+  const { href, method, body, merge } = link;
+  return Buffer.from(JSON.stringify({ href, method, body, merge })).toString('base64url');
+}
+
+// Only links back to the catalog that issued them are accepted, since the request carries our access token
+export function decodeStacCursor(cursor: string, baseUrl: string): StacLink {
+  let link: StacLink;
+  try {
+    link = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('cursor is not valid; pass next_cursor from a previous search unchanged', 'cursor');
+  }
+  if (typeof link?.href !== 'string' || !isWithin(link.href, baseUrl)) {
+    throw new ValidationError('cursor does not belong to this collection; pass next_cursor from the same search', 'cursor');
+  }
+  return { ...link, rel: 'next' };
+}
+
+export interface StacAssetDetail {
+  key: string;
+  href: string;
+  type: string | null;
+  title: string | null;
+  roles: string[];
+  size_bytes: number | null;
+  bands?: string[];
+}
+
+// Every asset of an item, in catalog order
+export function describeStacAssets(item: StacItem): StacAssetDetail[] {
+  return Object.entries(item.assets).map(([key, asset]) => ({
+    key,
+    href: asset.href,
+    type: asset.type ?? null,
+    title: asset.title ?? null,
+    roles: asset.roles ?? [],
+    size_bytes: asset['file:size'] ?? null,
+    bands: asset['eo:bands']?.map((b) => b.common_name || b.name),
+  }));
+}
+
+// Item footprints are WGS84 per the STAC spec, but some catalogs publish them in SWEREF99 TM; both are detected
+export function stacFootprint(item: StacItem): GeoJsonGeometry | null {
+  return item.geometry ? geometryToSweref99(item.geometry) : null;
+}
+
+// Percent of area (SWEREF99 TM) covered by the union of the footprints
+export function coveragePercent(area: GeoJsonGeometry, footprints: GeoJsonGeometry[]): number {
+  const total = geometryArea(area);
+  if (total === 0 || footprints.length === 0) return 0;
+  const covered = intersectionArea(area, (position) => footprints.some((f) => pointInGeometry(position, f)));
+  return Math.round((covered / total) * 1000) / 10;
+}
+
+// For raster reads that had to leave out the oldest of the tiles intersecting the area
+export function incompleteCoverageNote(tilesRead: number): string {
+  return (
+    `More than ${tilesRead} raster tiles intersect the area, so only the newest ${tilesRead} were read. ` +
+    'Parts covered only by older tiles are left empty — use a smaller area for full coverage.'
+  );
+}
@@ -0,0 +1,164 @@
+import { rasterizeGeometry, type RasterGrid } from './raster';
+import type { GeoJsonGeometry } from '@/types/lantmateriet';
+
+const ASPECT_SECTORS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'] as const;
+
+// Slopes below this are treated as flat and carry no aspect
+const FLAT_SLOPE_DEGREES = 1;
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface ElevationStatistics {
+  cellCount: number;
+  min: number;
+  max: number;
+  mean: number;
+  histogram: HistogramBin[];
+  meanSlopeDegrees: number;
+  maxSlopeDegrees: number;
+  dominantAspect: (typeof ASPECT_SECTORS)[number] | 'flat';
+  aspectDistribution: Record<string, number>; // Share of cells per compass sector, 0-1
+}
+
+// 1 for cells whose center falls inside the geometry; all cells when no geometry is given
+export function createMask(grid: RasterGrid, geometry?: GeoJsonGeometry): Uint8Array {
+  const mask = new Uint8Array(grid.width * grid.height);
+  if (!geometry) return mask.fill(1);
+  rasterizeGeometry(grid, geometry, mask, 1);
+  return mask;
+}
+
+// Horn's 3x3 method. Returns slope in degrees and aspect as compass bearing of the downhill direction,
+// or null at grid edges and next to no-data cells
+export function slopeAspectAt(
+  data: Float32Array,
+  grid: RasterGrid,
+  col: number,
+  row: number,
+): { slope: number; aspect: number } | null {
+  if (col === 0 || row === 0 || col === grid.width - 1 || row === grid.height - 1) return null;
+
+  const z = (dc: number, dr: number) => data[(row + dr) * grid.width + col + dc];
+  const [a, b, c] = [z(-1, -1), z(0, -1), z(1, -1)];
+  const [d, f] = [z(-1, 0), z(1, 0)];
+  const [g, h, i] = [z(-1, 1), z(0, 1), z(1, 1)];
+  if ([a, b, c, d, f, g, h, i].some(Number.isNaN)) return null;
+
+  const dzdEast = (c + 2 * f + i - (a + 2 * d + g)) / (8 * grid.resolution);
+  const dzdNorth = (a + 2 * b + c - (g + 2 * h + i)) / (8 * grid.resolution);
+  const slope = (Math.atan(Math.hypot(dzdEast, dzdNorth)) * 180) / Math.PI;
+  const aspect = ((Math.atan2(-dzdEast, -dzdNorth) * 180) / Math.PI + 360) % 360;
+
+  return { slope, aspect };
+}
+
+export function aspectSector(aspect: number): (typeof ASPECT_SECTORS)[number] {
+  return ASPECT_SECTORS[Math.round(aspect / 45) % 8];
+}
+
+export function elevationStatistics(
+  grid: RasterGrid,
+  mask: Uint8Array,
+  histogramBins: number = 10,
+): ElevationStatistics | null {
+  const data = grid.bands[0];
+
+  let count = 0;
+  let sum = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  for (let k = 0; k < data.length; k++) {
+    const value = data[k];
+    if (!mask[k] || Number.isNaN(value)) continue;
+    count++;
+    sum += value;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  if (count === 0) return null;
+
+  const binWidth = (max - min) / histogramBins || 1;
+  const histogram: HistogramBin[] = Array.from({ length: histogramBins }, (_, k) => ({
+    from: min + k * binWidth,
+    to: min + (k + 1) * binWidth,
+    count: 0,
+  }));
+
+  let slopeCount = 0;
+  let slopeSum = 0;
+  let maxSlope = 0;
+  const sectorCounts: Record<string, number> = Object.fromEntries(ASPECT_SECTORS.map((s) => [s, 0]));
+  let sloped = 0;
+
+  for (let row = 0; row < grid.height; row++) {
+    for (let col = 0; col < grid.width; col++) {
+      const k = row * grid.width + col;
+      if (!mask[k] || Number.isNaN(data[k])) continue;
+
+      histogram[Math.min(histogramBins - 1, Math.floor((data[k] - min) / binWidth))].count++;
+
+      const slopeAspect = slopeAspectAt(data, grid, col, row);
+      if (!slopeAspect) continue;
+      slopeCount++;
+      slopeSum += slopeAspect.slope;
+      maxSlope = Math.max(maxSlope, slopeAspect.slope);
+      if (slopeAspect.slope >= FLAT_SLOPE_DEGREES) {
+        sectorCounts[aspectSector(slopeAspect.aspect)]++;
+        sloped++;
+      }
+    }
+  }
+
+  const dominant = ASPECT_SECTORS.reduce((best, s) => (sectorCounts[s] > sectorCounts[best] ? s : best), ASPECT_SECTORS[0]);
+
+  return {
+    cellCount: count,
+    min,
+    max,
+    mean: sum / count,
+    histogram,
+    meanSlopeDegrees: slopeCount > 0 ? slopeSum / slopeCount : 0,
+    maxSlopeDegrees: maxSlope,
+    // Mostly flat areas have no meaningful aspect
+    dominantAspect: sloped > slopeCount / 2 ? dominant : 'flat',
+    aspectDistribution: Object.fromEntries(ASPECT_SECTORS.map((s) => [s, sloped > 0 ? sectorCounts[s] / sloped : 0])),
+  };
+}
+
+export interface FloodExposure {
+  level: number;
+  maskCount: number; // Cells inside the mask, including those without height data such as open water
+  cellCount: number; // Cells inside the mask with height data
+  belowCount: number;
+  maxDepth: number; // Deepest point below the level; 0 when nothing lies below
+  meanDepth: number;
+  below: Uint8Array; // 1 for cells inside the mask lying below the level
+}
+
+// Cells inside mask whose height lies below level. Every low cell counts, whether or not it is connected to
+// the sea or a watercourse, so enclosed hollows are included
+export function floodExposure(grid: RasterGrid, mask: Uint8Array, level: number): FloodExposure {
+  const data = grid.bands[0];
+  const below = new Uint8Array(data.length);
+  let maskCount = 0;
+  let cellCount = 0;
+  let belowCount = 0;
+  let depthSum = 0;
+  let maxDepth = 0;
+  for (let k = 0; k < data.length; k++) {
+    if (!mask[k]) continue;
+    maskCount++;
+    if (Number.isNaN(data[k])) continue;
+    cellCount++;
+    if (data[k] >= level) continue;
+    below[k] = 1;
+    belowCount++;
+    depthSum += level - data[k];
+    maxDepth = Math.max(maxDepth, level - data[k]);
+  }
+  return { level, maskCount, cellCount, belowCount, maxDepth, meanDepth: belowCount > 0 ? depthSum / belowCount : 0, below };
+}
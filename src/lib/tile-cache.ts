@@ -0,0 +1,126 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+export interface CachedTile {
+  body: Buffer;
+  contentType: string;
+  etag: string;
+  storedAt: number;
+}
+
+// Map tiles change rarely; a day keeps the cache useful without serving stale data for long
+export const TILE_TTL_MS = 24 * 60 * 60 * 1000;
+const MEMORY_MAX_BYTES = 64 * 1024 * 1024;
+// Past this the oldest tiles on disk are removed, even when still fresh
+const DISK_MAX_BYTES = 512 * 1024 * 1024;
+// Listing the cache directory on every write would cost more than it saves
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+// Serverless instances only have a writable /tmp, so that is the default
+const CACHE_DIR = process.env.TILE_CACHE_DIR || join(tmpdir(), 'lantmateriet-tiles');
+
+// Only names the cache writes itself, so a shared directory's other files are never touched
+const FILE_NAME_PATTERN = /^[0-9a-f]{40}\.(bin|json)$/;
+
+// Insertion-ordered, so the first key is always the least recently used
+const memory = new Map<string, CachedTile>();
+let memoryBytes = 0;
+let lastSweep = 0;
+
+function hashKey(key: string): string {
+  return createHash('sha1').update(key).digest('hex');
+}
+
+export function tileEtag(body: Buffer): string {
+  return `"${createHash('sha1').update(body).digest('hex')}"`;
+}
+
+function isFresh(tile: CachedTile): boolean {
+  return Date.now() - tile.storedAt < TILE_TTL_MS;
+}
+
+function remember(key: string, tile: CachedTile): void {
+  const existing = memory.get(key);
+  if (existing) {
+    memory.delete(key);
+    memoryBytes -= existing.body.length;
+  }
+  memory.set(key, tile);
+  memoryBytes += tile.body.length;
+
+  for (const [oldKey, oldTile] of memory) {
+    if (memoryBytes <= MEMORY_MAX_BYTES) break;
+    memory.delete(oldKey);
+    memoryBytes -= oldTile.body.length;
+  }
+}
+
+// Memory first, then disk. Disk problems only mean a cache miss
+export async function getCachedTile(key: string): Promise<CachedTile | null> {
+  const inMemory = memory.get(key);
+  if (inMemory && isFresh(inMemory)) {
+    remember(key, inMemory);
+    return inMemory;
+  }
+
+  try {
+    const base = join(CACHE_DIR, hashKey(key));
+    const meta = JSON.parse(await readFile(`${base}.json`, 'utf8')) as Omit<CachedTile, 'body'>;
+    const tile: CachedTile = { ...meta, body: await readFile(`${base}.bin`) };
+    if (!isFresh(tile)) return null;
+    remember(key, tile);
+    return tile;
+  } catch {
+    return null;
+  }
+}
+
+// Removes expired tiles, then the oldest ones until the cache fits DISK_MAX_BYTES. Failures are harmless;
+// the files are tried again on the next sweep
+async function sweepDiskCache(): Promise<void> {
+  if (Date.now() - lastSweep < SWEEP_INTERVAL_MS) return;
+  lastSweep = Date.now();
+
+  try {
+    const files = [];
+    for (const name of await readdir(CACHE_DIR)) {
+      if (!FILE_NAME_PATTERN.test(name)) continue;
+      const path = join(CACHE_DIR, name);
+      const info = await stat(path);
+      if (Date.now() - info.mtimeMs > TILE_TTL_MS) await unlink(path);
+      else files.push({ path, size: info.size, mtimeMs: info.mtimeMs });
+    }
+
+    let totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+    for (const file of files.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+      if (totalBytes <= DISK_MAX_BYTES) break;
+      await unlink(file.path);
+      totalBytes -= file.size;
+    }
+  } catch (error) {
+    console.error('Tile cache cleanup failed:', error);
+  }
+}
+
+export async function putCachedTile(key: string, body: Buffer, contentType: string): Promise<CachedTile> {
+  const tile: CachedTile = { body, contentType, etag: tileEtag(body), storedAt: Date.now() };
+  remember(key, tile);
+
+  try {
+    const base = join(CACHE_DIR, hashKey(key));
+    await mkdir(CACHE_DIR, { recursive: true });
+    await sweepDiskCache();
+    await writeFile(`${base}.bin`, body);
+    await writeFile(`${base}.json`, JSON.stringify({ contentType, etag: tile.etag, storedAt: tile.storedAt }));
+  } catch (error) {
+    console.error('Tile cache write failed:', error);
+  }
+  return tile;
+}
+
+export function clearTileMemoryCache(): void {
+  memory.clear();
+  memoryBytes = 0;
+}
@@ -0,0 +1,34 @@
+import type { BoundingBox } from './coordinates';
+
+// Path prefix of the tile proxy route (src/app/tiles/[...path]/route.ts)
+export const TILE_PROXY_PATH = '/tiles';
+export const PROPERTY_WMS_LAYER = 'fastighetsindelning';
+
+// Absolute URLs need to know where the server is reachable; Vercel provides its deployment host
+export function publicBaseUrl(): string | undefined {
+  const configured = process.env.PUBLIC_BASE_URL || (process.env.VERCEL_URL && `https://${process.env.VERCEL_URL}`);
+  return configured ? configured.replace(/\/$/, '') : undefined;
+}
+
+// Undefined when no public base URL is configured, since a relative URL is useless to an MCP client
+export function proxyTileUrl(layer: string, zoom: number, row: number, col: number): string | undefined {
+  const base = publicBaseUrl();
+  return base ? `${base}${TILE_PROXY_PATH}/${layer}/${zoom}/${row}/${col}.png` : undefined;
+}
+
+export function proxyTileUrlTemplate(layer: string): string | undefined {
+  const base = publicBaseUrl();
+  return base ? `${base}${TILE_PROXY_PATH}/${layer}/{z}/{y}/{x}.png` : undefined;
+}
+
+// bbox in SWEREF99 TM as minX,minY,maxX,maxY
+export function proxyPropertyMapUrl(bbox: BoundingBox, width: number, height: number): string | undefined {
+  const base = publicBaseUrl();
+  if (!base) return undefined;
+  const params = new URLSearchParams({
+    bbox: [bbox.minX, bbox.minY, bbox.maxX, bbox.maxY].map((v) => Math.round(v * 100) / 100).join(','),
+    width: String(width),
+    height: String(height),
+  });
+  return `${base}${TILE_PROXY_PATH}/${PROPERTY_WMS_LAYER}?${params.toString()}`;
+}
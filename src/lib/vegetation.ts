@@ -0,0 +1,132 @@
+import type { ColorStop } from './raster-export';
+
+export const VEGETATION_INDICES = ['ndvi', 'gndvi', 'savi', 'ndwi'] as const;
+export type VegetationIndex = (typeof VEGETATION_INDICES)[number];
+
+export type BandName = 'red' | 'green' | 'nir';
+export type BandLayout = Record<BandName, number>;
+
+export const INDEX_BANDS: Record<VegetationIndex, BandName[]> = {
+  ndvi: ['red', 'nir'],
+  gndvi: ['green', 'nir'],
+  savi: ['red', 'nir'],
+  ndwi: ['green', 'nir'],
+};
+
+// Soil brightness correction for SAVI, applied to values scaled to 0-1
+const SAVI_L = 0.5;
+const MAX_DIGITAL_NUMBER = 255;
+
+// NDVI at or above this counts as vegetated; a common threshold for aerial imagery without radiometric calibration
+export const VEGETATION_NDVI_THRESHOLD = 0.2;
+
+export const NDVI_CLASSES = [
+  { name: 'water_or_bare', max: 0 },
+  { name: 'sparse_vegetation', max: VEGETATION_NDVI_THRESHOLD },
+  { name: 'moderate_vegetation', max: 0.5 },
+  { name: 'dense_vegetation', max: Infinity },
+] as const;
+
+// Bare/water brown-grey through yellow to dark green
+export const NDVI_COLOR_RAMP: ColorStop[] = [
+  [-0.2, [110, 120, 150]],
+  [0, [166, 97, 26]],
+  [0.2, [245, 230, 120]],
+  [0.5, [110, 180, 70]],
+  [0.8, [0, 100, 0]],
+];
+
+// Red, green, blue, NIR: the band order of Lantmäteriet's 4-band orthophotos
+const DEFAULT_BAND_LAYOUT: BandLayout = { red: 0, green: 1, nir: 3 };
+
+// Band positions from the eo:bands common names of a STAC item. Four bands under other names are assumed to use
+// the default order; null when the item has no NIR band or no band metadata, since a plain RGB tile would
+// otherwise be read as if its blue band were NIR
+export function bandLayout(bands: string[] | undefined): BandLayout | null {
+  if (!bands || bands.length === 0) return null;
+
+  const names = bands.map((b) => b.toLowerCase());
+  const find = (...aliases: string[]) => names.findIndex((n) => aliases.includes(n));
+  const red = find('red', 'r');
+  const green = find('green', 'g');
+  const nir = find('nir', 'nir08', 'nir09', 'near-infrared', 'ir');
+  if (red >= 0 && green >= 0 && nir >= 0) return { red, green, nir };
+  if (bands.length === 4 && red < 0 && green < 0 && nir < 0) return DEFAULT_BAND_LAYOUT;
+  return null;
+}
+
+function normalizedDifference(a: Float32Array, b: Float32Array): Float32Array {
+  const out = new Float32Array(a.length);
+  for (let i = 0; i < a.length; i++) {
+    const sum = a[i] + b[i];
+    out[i] = Number.isNaN(sum) || sum === 0 ? NaN : (a[i] - b[i]) / sum;
+  }
+  return out;
+}
+
+// Index per cell from 8-bit band values; NaN where a band is missing or both are zero
+export function computeIndex(index: VegetationIndex, bands: Record<BandName, Float32Array>): Float32Array {
+  const { red, green, nir } = bands;
+  switch (index) {
+    case 'ndvi':
+      return normalizedDifference(nir, red);
+    case 'gndvi':
+      return normalizedDifference(nir, green);
+    case 'ndwi':
+      return normalizedDifference(green, nir);
+    case 'savi': {
+      const out = new Float32Array(nir.length);
+      for (let i = 0; i < nir.length; i++) {
+        const n = nir[i] / MAX_DIGITAL_NUMBER;
+        const r = red[i] / MAX_DIGITAL_NUMBER;
+        out[i] = ((n - r) / (n + r + SAVI_L)) * (1 + SAVI_L);
+      }
+      return out;
+    }
+  }
+}
+
+export interface IndexStatistics {
+  cellCount: number;
+  min: number;
+  max: number;
+  mean: number;
+  stdDev: number;
+  p10: number;
+  median: number;
+  p90: number;
+}
+
+// Statistics over the cells inside mask; null when none has a value
+export function indexStatistics(values: Float32Array, mask: Uint8Array): IndexStatistics | null {
+  const valid = values.filter((v, i) => mask[i] && !Number.isNaN(v)).sort();
+  if (valid.length === 0) return null;
+
+  let sum = 0;
+  for (const v of valid) sum += v;
+  const mean = sum / valid.length;
+  let squares = 0;
+  for (const v of valid) squares += (v - mean) ** 2;
+  const percentile = (p: number) => valid[Math.min(valid.length - 1, Math.floor(p * valid.length))];
+
+  return {
+    cellCount: valid.length,
+    min: valid[0],
+    max: valid[valid.length - 1],
+    mean,
+    stdDev: Math.sqrt(squares / valid.length),
+    p10: percentile(0.1),
+    median: percentile(0.5),
+    p90: percentile(0.9),
+  };
+}
+
+// Cell count per NDVI class over the cells inside mask, in NDVI_CLASSES order
+export function classifyNdvi(ndvi: Float32Array, mask: Uint8Array): number[] {
+  const counts = NDVI_CLASSES.map(() => 0);
+  for (let i = 0; i < ndvi.length; i++) {
+    if (!mask[i] || Number.isNaN(ndvi[i])) continue;
+    counts[NDVI_CLASSES.findIndex((c) => ndvi[i] < c.max)]++;
+  }
+  return counts;
+}
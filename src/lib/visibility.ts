@@ -0,0 +1,164 @@
+import type { RasterGrid } from './raster';
+import type { Position } from './geometry';
+
+const EARTH_RADIUS_METERS = 6_371_000;
+// Standard coefficient of atmospheric refraction, which bends sight lines slightly back towards the ground
+const REFRACTION_COEFFICIENT = 0.13;
+
+// How far the ground at a distance falls below the observer's horizontal plane, net of refraction.
+// About 7 m at 10 km, so it matters for turbines and masts seen from afar
+export function curvatureDrop(distance: number): number {
+  return (distance * distance * (1 - REFRACTION_COEFFICIENT)) / (2 * EARTH_RADIUS_METERS);
+}
+
+// Height of the cell containing position; NaN outside the grid or on no-data
+export function elevationAt(grid: RasterGrid, [x, y]: Position): number {
+  const col = Math.floor((x - grid.bbox.minX) / grid.resolution);
+  const row = Math.floor((grid.bbox.maxY - y) / grid.resolution);
+  if (col < 0 || row < 0 || col >= grid.width || row >= grid.height) return NaN;
+  return grid.bands[0][row * grid.width + col];
+}
+
+export interface SightlinePoint {
+  position: Position;
+  distance: number;
+  terrain: number; // Ground height, corrected for curvature relative to the observer
+  sightline: number;
+  clearance: number; // Sight line minus terrain; negative where the ground blocks the view
+}
+
+export interface LineOfSightResult {
+  visible: boolean;
+  distance: number;
+  observerGround: number;
+  targetGround: number;
+  obstruction: SightlinePoint | null; // First blocking point seen from the observer
+  minClearance: SightlinePoint | null; // Where the sight line passes closest to (or furthest below) the ground
+  sampleCount: number;
+  noDataSamples: number;
+}
+
+// Samples the terrain every half cell along the straight line from observer to target. Heights are above ground
+// at each end; null when either end has no elevation data
+export function lineOfSight(
+  grid: RasterGrid,
+  from: Position,
+  to: Position,
+  observerHeight: number,
+  targetHeight: number,
+): LineOfSightResult | null {
+  const observerGround = elevationAt(grid, from);
+  const targetGround = elevationAt(grid, to);
+  if (Number.isNaN(observerGround) || Number.isNaN(targetGround)) return null;
+
+  const distance = Math.hypot(to[0] - from[0], to[1] - from[1]);
+  const eye = observerGround + observerHeight;
+  const target = targetGround + targetHeight - curvatureDrop(distance);
+  const steps = Math.max(1, Math.ceil(distance / (grid.resolution / 2)));
+
+  let obstruction: SightlinePoint | null = null;
+  let minClearance: SightlinePoint | null = null;
+  let noDataSamples = 0;
+  for (let i = 1; i < steps; i++) {
+    const t = i / steps;
+    const position: Position = [from[0] + t * (to[0] - from[0]), from[1] + t * (to[1] - from[1])];
+    const ground = elevationAt(grid, position);
+    if (Number.isNaN(ground)) {
+      noDataSamples++;
+      continue;
+    }
+
+    const d = t * distance;
+    const terrain = ground - curvatureDrop(d);
+    const sightline = eye + t * (target - eye);
+    const point = { position, distance: d, terrain, sightline, clearance: sightline - terrain };
+    if (!minClearance || point.clearance < minClearance.clearance) minClearance = point;
+    if (!obstruction && point.clearance < 0) obstruction = point;
+  }
+
+  return {
+    visible: obstruction === null,
+    distance,
+    observerGround,
+    targetGround,
+    obstruction,
+    minClearance,
+    sampleCount: Math.max(0, steps - 1),
+    noDataSamples,
+  };
+}
+
+export interface ViewshedResult {
+  visible: Uint8Array; // 1 for cells within the radius from which a target at targetHeight can be seen
+  analysedCells: number; // Cells within the radius that have elevation data
+  visibleCells: number;
+  observerGround: number;
+}
+
+// Radial sweep (the "R2" approximation): a ray from the observer to every cell on the edge of the square around the
+// radius, keeping the steepest terrain angle so far. A cell is visible when a target on it rises to or above that
+// angle. Rays cross cells near the observer many times; a cell counts as visible if any ray sees it
+export function viewshed(
+  grid: RasterGrid,
+  observer: Position,
+  observerHeight: number,
+  targetHeight: number,
+  radius: number,
+): ViewshedResult | null {
+  const observerGround = elevationAt(grid, observer);
+  if (Number.isNaN(observerGround)) return null;
+
+  const { width, height, resolution } = grid;
+  const heights = grid.bands[0];
+  const eye = observerGround + observerHeight;
+  const originCol = Math.floor((observer[0] - grid.bbox.minX) / resolution);
+  const originRow = Math.floor((grid.bbox.maxY - observer[1]) / resolution);
+  const reach = Math.ceil(radius / resolution);
+  const visible = new Uint8Array(width * height);
+  visible[originRow * width + originCol] = 1;
+
+  const castRay = (endCol: number, endRow: number) => {
+    const dc = endCol - originCol;
+    const dr = endRow - originRow;
+    const steps = Math.max(Math.abs(dc), Math.abs(dr));
+    let maxAngle = -Infinity;
+    for (let s = 1; s <= steps; s++) {
+      const col = originCol + Math.round((dc * s) / steps);
+      const row = originRow + Math.round((dr * s) / steps);
+      if (col < 0 || row < 0 || col >= width || row >= height) return;
+      const d = resolution * Math.hypot(col - originCol, row - originRow);
+      if (d > radius) return;
+
+      const ground = heights[row * width + col];
+      if (Number.isNaN(ground)) continue;
+      const terrain = ground - curvatureDrop(d);
+      if ((terrain + targetHeight - eye) / d >= maxAngle) visible[row * width + col] = 1;
+      maxAngle = Math.max(maxAngle, (terrain - eye) / d);
+    }
+  };
+
+  for (let offset = -reach; offset <= reach; offset++) {
+    castRay(originCol + offset, originRow - reach);
+    castRay(originCol + offset, originRow + reach);
+    castRay(originCol - reach, originRow + offset);
+    castRay(originCol + reach, originRow + offset);
+  }
+
+  // Only cells within the radius and with data count towards the share
+  let analysedCells = 0;
+  let visibleCells = 0;
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const i = row * width + col;
+      const inside = resolution * Math.hypot(col - originCol, row - originRow) <= radius;
+      if (!inside || Number.isNaN(heights[i])) {
+        visible[i] = 0;
+        continue;
+      }
+      analysedCells++;
+      visibleCells += visible[i];
+    }
+  }
+
+  return { visible, analysedCells, visibleCells, observerGround };
+}
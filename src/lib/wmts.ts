@@ -0,0 +1,72 @@
+import type { BoundingBox } from './coordinates';
+
+// Lantmäteriet's "3006" WMTS tile matrix set: 256 px tiles, resolution halving per level from 4096 m/px
+export const TILE_MATRIX_SET = '3006';
+export const TILE_SIZE = 256;
+const ORIGIN = { x: -1200000, y: 8500000 }; // Top-left corner
+const LEVEL_0_RESOLUTION = 4096;
+export const MAX_TILE_MATRIX = 13;
+
+export interface TileRange {
+  zoom: number;
+  minCol: number;
+  maxCol: number;
+  minRow: number;
+  maxRow: number;
+}
+
+export interface TileAddress {
+  zoom: number;
+  row: number;
+  col: number;
+}
+
+// Meters per pixel at a tile matrix level
+export function tileResolution(zoom: number): number {
+  return LEVEL_0_RESOLUTION / 2 ** zoom;
+}
+
+// Finest level at which the bbox still fits within maxPixels on its longer side
+export function chooseZoom(bbox: BoundingBox, maxPixels: number, maxZoom: number = MAX_TILE_MATRIX): number {
+  const extent = Math.max(bbox.maxX - bbox.minX, bbox.maxY - bbox.minY);
+  let zoom = 0;
+  while (zoom < maxZoom && extent / tileResolution(zoom + 1) <= maxPixels) zoom++;
+  return zoom;
+}
+
+export function tileRange(bbox: BoundingBox, zoom: number): TileRange {
+  const span = TILE_SIZE * tileResolution(zoom);
+  // The epsilon keeps a bbox edge lying exactly on a tile boundary from pulling in the neighbouring tile
+  return {
+    zoom,
+    minCol: Math.floor((bbox.minX - ORIGIN.x) / span),
+    maxCol: Math.ceil((bbox.maxX - ORIGIN.x) / span - 1e-9) - 1,
+    minRow: Math.floor((ORIGIN.y - bbox.maxY) / span),
+    maxRow: Math.ceil((ORIGIN.y - bbox.minY) / span - 1e-9) - 1,
+  };
+}
+
+export function tileCount(range: TileRange): number {
+  return (range.maxCol - range.minCol + 1) * (range.maxRow - range.minRow + 1);
+}
+
+export function tilesInRange(range: TileRange): TileAddress[] {
+  const tiles: TileAddress[] = [];
+  for (let row = range.minRow; row <= range.maxRow; row++) {
+    for (let col = range.minCol; col <= range.maxCol; col++) {
+      tiles.push({ zoom: range.zoom, row, col });
+    }
+  }
+  return tiles;
+}
+
+// Ground extent covered by the whole tile range, i.e. the extent of the stitched mosaic
+export function rangeBbox(range: TileRange): BoundingBox {
+  const span = TILE_SIZE * tileResolution(range.zoom);
+  return {
+    minX: ORIGIN.x + range.minCol * span,
+    maxX: ORIGIN.x + (range.maxCol + 1) * span,
+    maxY: ORIGIN.y - range.minRow * span,
+    minY: ORIGIN.y - (range.maxRow + 1) * span,
+  };
+}
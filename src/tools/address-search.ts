@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { lantmaterietClient } from '@/clients/lantmateriet-client';
+import { withErrorHandling } from '@/lib/response';
+import { toSweref99, fromSweref99, CRS_WGS84, type SupportedCrs } from '@/lib/coordinates';
+import { ValidationError } from '@/lib/errors';
+import type { AddressResult } from '@/types/lantmateriet';
+import { crsInputSchema, type CrsInput } from './crs-params';
+
+const QUERY_TYPES = ['address', 'coordinate'] as const;
+type QueryType = (typeof QUERY_TYPES)[number];
+
+const MAX_RADIUS_METERS = 1000;
+
+export const addressSearchInputSchema = {
+  queryType: z
+    .enum(QUERY_TYPES)
+    .describe('Search method: "address" (address text to candidate locations), "coordinate" (addresses near a location)'),
+  address: z
+    .string()
+    .optional()
+    .describe('Address to search, e.g. "Storgatan 1" or "Drottninggatan 1, Stockholm". Use with queryType="address"'),
+  kommun: z
+    .string()
+    .optional()
+    .describe('Only return addresses in this municipality, e.g. "Umeå". Use with queryType="address"'),
+  postnummer: z
+    .string()
+    .optional()
+    .describe('Only return addresses with this postal code, e.g. "903 26". Use with queryType="address"'),
+  latitude: z
+    .number()
+    .optional()
+    .describe('Latitude (WGS84) or northing (projected inputCrs). Stockholm ~59.33. Use with queryType="coordinate"'),
+  longitude: z
+    .number()
+    .optional()
+    .describe('Longitude (WGS84) or easting (projected inputCrs). Stockholm ~18.07. Use with queryType="coordinate"'),
+  radius: z
+    .number()
+    .optional()
+    .default(50)
+    .describe('Search radius in meters for queryType="coordinate" (default: 50, max: 1000)'),
+  maxResults: z.number().optional().default(10).describe('Maximum results to return (default: 10)'),
+  ...crsInputSchema,
+};
+
+export const addressSearchTool = {
+  name: 'lm_address_search',
+  description:
+    'Search Swedish addresses (Adress). Address search returns ranked candidates with coordinates, postal code, ' +
+    'postal town, municipality and county — use kommun or postnummer to disambiguate common addresses like "Storgatan 1". ' +
+    'Coordinate search returns addresses within a radius of a point, nearest first. ' +
+    'Coordinates in WGS84 by default (see inputCrs/outputCrs). Requires Lantmäteriet API credentials for authenticated access.',
+  inputSchema: addressSearchInputSchema,
+};
+
+type AddressSearchInput = {
+  queryType: QueryType;
+  address?: string;
+  kommun?: string;
+  postnummer?: string;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  maxResults?: number;
+} & CrsInput;
+
+function toOutputAddress(address: AddressResult & { distance?: number }, index: number, outputCrs: SupportedCrs) {
+  return {
+    rank: index + 1,
+    address: address.adress,
+    postnummer: address.postnummer,
+    postort: address.postort,
+    kommun: address.kommun,
+    lan: address.lan,
+    ...(address.koordinat ? fromSweref99(address.koordinat, outputCrs) : {}),
+    distance_meters: address.distance,
+  };
+}
+
+export const addressSearchHandler = withErrorHandling(async (args: AddressSearchInput) => {
+  const { queryType } = args;
+  const maxResults = args.maxResults || 10;
+  const outputCrs = args.outputCrs || CRS_WGS84;
+
+  switch (queryType) {
+    case 'address': {
+      if (!args.address) {
+        throw new ValidationError('Address is required for address query', 'address');
+      }
+
+      const candidates = await lantmaterietClient.searchAddresses(args.address, {
+        kommun: args.kommun,
+        postnummer: args.postnummer,
+        maxResults,
+      });
+      const towns = new Set(candidates.map((c) => `${c.postort}|${c.kommun}`));
+
+      return {
+        query_type: 'address',
+        search_address: args.address,
+        coordinate_system: outputCrs,
+        resultCount: candidates.length,
+        candidates: candidates.map((c, i) => toOutputAddress(c, i, outputCrs)),
+        note:
+          candidates.length === 0
+            ? 'No address found. Check the spelling or remove the kommun/postnummer filters.'
+            : towns.size > 1
+              ? 'The address matches several towns. Confirm the intended one, or narrow with kommun or postnummer.'
+              : undefined,
+      };
+    }
+
+    case 'coordinate': {
+      if (args.latitude === undefined || args.longitude === undefined) {
+        throw new ValidationError('For coordinate query, provide latitude and longitude', 'coordinates');
+      }
+
+      const radius = args.radius || 50;
+      if (radius <= 0 || radius > MAX_RADIUS_METERS) {
+        throw new ValidationError(`Radius must be between 1 and ${MAX_RADIUS_METERS} meters`, 'radius');
+      }
+
+      const sweref99Point = toSweref99(args.latitude, args.longitude, args.inputCrs);
+      const addresses = await lantmaterietClient.findNearbyAddresses(sweref99Point, radius, maxResults);
+
+      return {
+        query_type: 'coordinate',
+        coordinate_system: outputCrs,
+        search_coordinate: fromSweref99(sweref99Point, outputCrs),
+        radius_meters: radius,
+        resultCount: addresses.length,
+        addresses: addresses.map((a, i) => toOutputAddress(a, i, outputCrs)),
+        note: addresses.length === 0 ? 'No addresses within the radius. Try a larger radius.' : undefined,
+      };
+    }
+
+    default:
+      throw new ValidationError(`Unknown query type: ${queryType}`, 'queryType');
+  }
+});
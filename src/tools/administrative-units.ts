@@ -0,0 +1,169 @@
+import { z } from 'zod';
+import { lantmaterietClient } from '@/clients/lantmateriet-client';
+import { withErrorHandling } from '@/lib/response';
+import { toSweref99, fromSweref99, sweref99GeometryToCrs, CRS_WGS84, type SupportedCrs } from '@/lib/coordinates';
+import { resolveCounty, withCountyFromKommun } from '@/lib/admin-units';
+import { interiorPoint, simplifyGeometry } from '@/lib/geometry';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import type { AdministrativeUnit, AdministrativeUnits, GeoJsonGeometry } from '@/types/lantmateriet';
+import { crsInputSchema, type CrsInput } from './crs-params';
+
+const QUERY_TYPES = ['coordinate', 'property', 'county'] as const;
+type QueryType = (typeof QUERY_TYPES)[number];
+
+// Municipality and county boundaries have tens of thousands of vertices at full resolution
+const DEFAULT_SIMPLIFY_TOLERANCE = 25;
+
+const CODE_FIELDS = { kommun: 'kommunkod', lan: 'lanskod', forsamling: 'forsamlingskod' } as const;
+
+export const administrativeUnitsInputSchema = {
+  queryType: z
+    .enum(QUERY_TYPES)
+    .describe(
+      'Lookup method: "coordinate" (units containing a location), "property" (units a property lies in), "county" (list all municipalities in a county)',
+    ),
+  latitude: z
+    .number()
+    .optional()
+    .describe('Latitude (WGS84) or northing (projected inputCrs). Stockholm ~59.33. Use with queryType="coordinate"'),
+  longitude: z
+    .number()
+    .optional()
+    .describe('Longitude (WGS84) or easting (projected inputCrs). Stockholm ~18.07. Use with queryType="coordinate"'),
+  designation: z.string().optional().describe('Property designation, e.g. "UPPSALA KÅBO 1:1". Use with queryType="property"'),
+  county: z
+    .string()
+    .optional()
+    .describe('County as länskod ("03") or name ("Uppsala län", "Uppsala"). Use with queryType="county"'),
+  includeGeometry: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Include unit boundaries as GeoJSON (default: false). Boundaries are large, so they are simplified'),
+  simplifyTolerance: z
+    .number()
+    .optional()
+    .describe(`Boundary simplification tolerance in meters (default: ${DEFAULT_SIMPLIFY_TOLERANCE}, 0 for full resolution)`),
+  ...crsInputSchema,
+};
+
+export const administrativeUnitsTool = {
+  name: 'lm_administrative_units',
+  description:
+    'Look up Swedish administrative units (Administrativ indelning) with their official codes. ' +
+    'For a coordinate or property designation, returns the municipality (kommun, kommunkod), county (län, länskod) ' +
+    'and parish (församling, församlingskod), optionally with boundaries. For a county, lists all its municipalities. ' +
+    'Requires Lantmäteriet API credentials for authenticated access.',
+  inputSchema: administrativeUnitsInputSchema,
+};
+
+type AdministrativeUnitsInput = {
+  queryType: QueryType;
+  latitude?: number;
+  longitude?: number;
+  designation?: string;
+  county?: string;
+  includeGeometry?: boolean;
+  simplifyTolerance?: number;
+} & CrsInput;
+
+type GeometryOptions = { includeGeometry: boolean; simplifyTolerance: number; outputCrs: SupportedCrs };
+
+function outputGeometry(geometry: GeoJsonGeometry | undefined, options: GeometryOptions): GeoJsonGeometry | undefined {
+  if (!geometry || !options.includeGeometry) return undefined;
+  return sweref99GeometryToCrs(simplifyGeometry(geometry, options.simplifyTolerance), options.outputCrs);
+}
+
+// Codes are reported under their official names (kommunkod, lanskod, forsamlingskod)
+function toOutputUnit(unit: AdministrativeUnit | undefined, options: GeometryOptions) {
+  if (!unit) return null;
+  return {
+    namn: unit.namn,
+    [CODE_FIELDS[unit.type]]: unit.kod,
+    geometry: outputGeometry(unit.geometry, options),
+  };
+}
+
+function toOutputUnits(units: AdministrativeUnits, options: GeometryOptions) {
+  const complete = withCountyFromKommun(units);
+  return {
+    kommun: toOutputUnit(complete.kommun, options),
+    lan: toOutputUnit(complete.lan, options),
+    forsamling: toOutputUnit(complete.forsamling, options),
+  };
+}
+
+export const administrativeUnitsHandler = withErrorHandling(async (args: AdministrativeUnitsInput) => {
+  const outputCrs = args.outputCrs || CRS_WGS84;
+  const includeGeometry = args.includeGeometry ?? false;
+  const options: GeometryOptions = {
+    includeGeometry,
+    simplifyTolerance: args.simplifyTolerance ?? DEFAULT_SIMPLIFY_TOLERANCE,
+    outputCrs,
+  };
+
+  switch (args.queryType) {
+    case 'coordinate': {
+      if (args.latitude === undefined || args.longitude === undefined) {
+        throw new ValidationError('For coordinate query, provide latitude and longitude', 'coordinates');
+      }
+
+      const point = toSweref99(args.latitude, args.longitude, args.inputCrs);
+      const units = await lantmaterietClient.findAdministrativeUnits(point, { includeGeometry });
+
+      return {
+        query_type: 'coordinate',
+        coordinate_system: outputCrs,
+        search_coordinate: fromSweref99(point, outputCrs),
+        ...toOutputUnits(units, options),
+        note: !units.kommun ? 'No municipality found at this location. Check that the coordinate is within Sweden.' : undefined,
+      };
+    }
+
+    case 'property': {
+      if (!args.designation) {
+        throw new ValidationError('designation is required for property query', 'designation');
+      }
+
+      const property = await lantmaterietClient.findPropertyByDesignation(args.designation);
+      if (!property) {
+        throw new NotFoundError('Property', args.designation);
+      }
+      if (!property.geometry) {
+        throw new ValidationError(`Property ${property.beteckning} has no geometry to locate it by`, 'designation');
+      }
+
+      // A property can in rare cases straddle a parish boundary; the units at its interior point are reported
+      const [x, y] = interiorPoint(property.geometry);
+      const units = await lantmaterietClient.findAdministrativeUnits({ x, y }, { includeGeometry });
+
+      return {
+        query_type: 'property',
+        coordinate_system: outputCrs,
+        property: { beteckning: property.beteckning, objektidentitet: property.objektidentitet },
+        lookup_coordinate: fromSweref99({ x, y }, outputCrs),
+        ...toOutputUnits(units, options),
+      };
+    }
+
+    case 'county': {
+      if (!args.county) {
+        throw new ValidationError('county is required for county query', 'county');
+      }
+
+      const county = resolveCounty(args.county);
+      const municipalities = await lantmaterietClient.listMunicipalities(county.lanskod, { includeGeometry });
+
+      return {
+        query_type: 'county',
+        coordinate_system: outputCrs,
+        lan: { namn: county.namn, lanskod: county.lanskod },
+        municipalityCount: municipalities.length,
+        municipalities: municipalities.map((m) => toOutputUnit(m, options)),
+      };
+    }
+
+    default:
+      throw new ValidationError(`Unknown query type: ${args.queryType}`, 'queryType');
+  }
+});
@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { lantmaterietClient, type BuildingQuery } from '@/clients/lantmateriet-client';
+import { withErrorHandling } from '@/lib/response';
+import {
+  toSweref99,
+  toSweref99Bbox,
+  sweref99GeometryToCrs,
+  validateBbox,
+  CRS_WGS84,
+  type SupportedCrs,
+} from '@/lib/coordinates';
+import { geometryArea } from '@/lib/geometry';
+import { ValidationError } from '@/lib/errors';
+import type { BuildingInfo } from '@/types/lantmateriet';
+import { crsInputSchema, type CrsInput } from './crs-params';
+
+const QUERY_TYPES = ['coordinate', 'bbox', 'property'] as const;
+type QueryType = (typeof QUERY_TYPES)[number];
+
+// Keeps bbox queries to neighbourhood scale so responses stay a manageable size
+const MAX_BBOX_SIDE_METERS = 2000;
+
+export const buildingsInputSchema = {
+  queryType: z
+    .enum(QUERY_TYPES)
+    .describe(
+      'Search method: "coordinate" (building at a location), "bbox" (all buildings in an area, max 2x2 km), "property" (buildings on a property)',
+    ),
+  latitude: z
+    .number()
+    .optional()
+    .describe('Latitude (WGS84) or northing (projected inputCrs). Stockholm ~59.33. Use with queryType="coordinate"'),
+  longitude: z
+    .number()
+    .optional()
+    .describe('Longitude (WGS84) or easting (projected inputCrs). Stockholm ~18.07. Use with queryType="coordinate"'),
+  minLat: z.number().optional().describe('Bbox minimum latitude (WGS84) or northing. Use with queryType="bbox"'),
+  minLon: z.number().optional().describe('Bbox minimum longitude (WGS84) or easting. Use with queryType="bbox"'),
+  maxLat: z.number().optional().describe('Bbox maximum latitude (WGS84) or northing. Use with queryType="bbox"'),
+  maxLon: z.number().optional().describe('Bbox maximum longitude (WGS84) or easting. Use with queryType="bbox"'),
+  objektidentitet: z
+    .string()
+    .optional()
+    .describe('Property objektidentitet (UUID) from lm_property_search. Use with queryType="property"'),
+  includeGeometry: z.boolean().optional().default(true).describe('Include building footprints as GeoJSON (default: true)'),
+  maxResults: z.number().optional().default(100).describe('Maximum buildings to return (default: 100)'),
+  ...crsInputSchema,
+};
+
+export const buildingsTool = {
+  name: 'lm_buildings',
+  description:
+    'Find Swedish buildings (Byggnad) at a coordinate, within a bounding box, or on a property. ' +
+    'Returns building footprints as geometry (WGS84 by default, see outputCrs), footprint area (m²), purpose (e.g. Bostad, Industri, Samhällsfunktion) ' +
+    'and identifiers. For property queries, use the objektidentitet returned by lm_property_search. ' +
+    'Requires Lantmäteriet API credentials for authenticated access.',
+  inputSchema: buildingsInputSchema,
+};
+
+type BuildingsInput = {
+  queryType: QueryType;
+  latitude?: number;
+  longitude?: number;
+  minLat?: number;
+  minLon?: number;
+  maxLat?: number;
+  maxLon?: number;
+  objektidentitet?: string;
+  includeGeometry?: boolean;
+  maxResults?: number;
+} & CrsInput;
+
+function buildQuery(args: BuildingsInput): BuildingQuery {
+  switch (args.queryType) {
+    case 'coordinate': {
+      if (args.latitude === undefined || args.longitude === undefined) {
+        throw new ValidationError('For coordinate query, provide latitude and longitude', 'coordinates');
+      }
+      return { point: toSweref99(args.latitude, args.longitude, args.inputCrs) };
+    }
+
+    case 'bbox': {
+      if (args.minLat === undefined || args.minLon === undefined || args.maxLat === undefined || args.maxLon === undefined) {
+        throw new ValidationError('For bbox query, provide minLat, minLon, maxLat, maxLon', 'bbox');
+      }
+      const bbox = toSweref99Bbox(
+        { minLat: args.minLat, minLon: args.minLon, maxLat: args.maxLat, maxLon: args.maxLon },
+        args.inputCrs,
+      );
+      validateBbox(bbox);
+      if (bbox.maxX - bbox.minX > MAX_BBOX_SIDE_METERS || bbox.maxY - bbox.minY > MAX_BBOX_SIDE_METERS) {
+        throw new ValidationError(
+          `Bounding box is too large. Each side must be at most ${MAX_BBOX_SIDE_METERS} meters — split the area into smaller boxes.`,
+          'bbox',
+        );
+      }
+      return { bbox };
+    }
+
+    case 'property': {
+      if (!args.objektidentitet) {
+        throw new ValidationError('objektidentitet is required for property query', 'objektidentitet');
+      }
+      return { objektidentitet: args.objektidentitet };
+    }
+
+    default:
+      throw new ValidationError(`Unknown query type: ${args.queryType}`, 'queryType');
+  }
+}
+
+function toOutputBuilding(building: BuildingInfo, includeGeometry: boolean, outputCrs: SupportedCrs): BuildingInfo {
+  if (!building.geometry) return building;
+
+  return {
+    ...building,
+    area: building.area ?? Math.round(geometryArea(building.geometry)),
+    geometry: includeGeometry ? sweref99GeometryToCrs(building.geometry, outputCrs) : undefined,
+  };
+}
+
+export const buildingsHandler = withErrorHandling(async (args: BuildingsInput) => {
+  const query = buildQuery(args);
+  const includeGeometry = args.includeGeometry ?? true;
+  const maxResults = args.maxResults || 100;
+  const outputCrs = args.outputCrs || CRS_WGS84;
+
+  const result = await lantmaterietClient.findBuildings(query);
+  const buildings = result.buildings.slice(0, maxResults).map((b) => toOutputBuilding(b, includeGeometry, outputCrs));
+
+  return {
+    query_type: args.queryType,
+    coordinate_system: outputCrs,
+    totalCount: result.totalCount,
+    returnedCount: buildings.length,
+    buildings,
+    note:
+      result.totalCount === 0
+        ? 'No buildings found. Check that the location is within Sweden or try a larger area.'
+        : result.totalCount > buildings.length
+          ? `Showing ${buildings.length} of ${result.totalCount} buildings. Increase maxResults or narrow the area.`
+          : undefined,
+  };
+});
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { SUPPORTED_CRS, type SupportedCrs } from '@/lib/coordinates';
+
+// Shared by every tool so coordinate handling reads the same everywhere
+export const crsInputSchema = {
+  inputCrs: z
+    .enum(SUPPORTED_CRS)
+    .optional()
+    .describe(
+      'CRS of input coordinates: EPSG:4326 (WGS84), EPSG:3006 (SWEREF99 TM), EPSG:3007-3018 (regional SWEREF99 zones) ' +
+        'or EPSG:3021 (RT90). For projected CRSs put northing in latitude fields and easting in longitude fields. ' +
+        'Auto-detected for WGS84, SWEREF99 TM and RT90 if omitted',
+    ),
+  outputCrs: z
+    .enum(SUPPORTED_CRS)
+    .optional()
+    .default('EPSG:4326')
+    .describe(
+      'CRS of returned coordinates and geometries (default: EPSG:4326). ' +
+        'Projected CRSs return northing/easting and GeoJSON in [easting, northing] order',
+    ),
+};
+
+export type CrsInput = {
+  inputCrs?: SupportedCrs;
+  outputCrs?: SupportedCrs;
+};
@@ -1,40 +1,362 @@
 import { z } from 'zod';
 import { lantmaterietClient } from '@/clients/lantmateriet-client';
-import { withErrorHandling } from '@/lib/response';
-import { wgs84ToSweref99, CRS_WGS84 } from '@/lib/coordinates';
+import { round, withErrorHandling } from '@/lib/response';
+import { toSweref99, fromSweref99, toSweref99Line, CRS_WGS84, type Sweref99Point, type SupportedCrs } from '@/lib/coordinates';
+import { lineLength, sampleLine, type Ring } from '@/lib/geometry';
+import { assertAreaWithin, resolveArea, sourceTiles } from '@/lib/area';
+import { chooseResolution } from '@/lib/raster';
+import { createMask, elevationStatistics } from '@/lib/terrain';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { ConfigurationError, McpToolError, NotFoundError, UpstreamApiError, ValidationError } from '@/lib/errors';
+import { crsInputSchema, type CrsInput } from './crs-params';
+
+const MODES = ['point', 'profile', 'batch', 'area'] as const;
+type Mode = (typeof MODES)[number];
+
+// Keeps a single profile or batch within the upstream rate limits (see RESEARCH.md)
+const MAX_PROFILE_SAMPLES = 500;
+const MAX_BATCH_POINTS = 200;
+const ELEVATION_CONCURRENCY = 5;
+
+// Area statistics read the 1 m grid DEM; larger areas are read from coarser overviews
+const DEM_RESOLUTION_METERS = 1;
+const MAX_AREA_CELLS = 1_000_000;
+const MAX_AREA_SQUARE_METERS = 25_000_000;
 
 export const elevationInputSchema = {
-  latitude: z.number().describe('Latitude (WGS84). Stockholm ~59.33, Gothenburg ~57.71, Malmo ~55.61'),
-  longitude: z.number().describe('Longitude (WGS84). Stockholm ~18.07, Gothenburg ~11.97, Malmo ~13.00'),
+  mode: z
+    .enum(MODES)
+    .optional()
+    .default('point')
+    .describe(
+      '"point" (height at one coordinate, default), "profile" (heights sampled along a line), ' +
+        '"batch" (many points in one call) or "area" (statistics over a bbox or polygon)',
+    ),
+  latitude: z
+    .number()
+    .optional()
+    .describe('Latitude (WGS84) or northing (projected inputCrs). Stockholm ~59.33, Gothenburg ~57.71, Malmo ~55.61'),
+  longitude: z
+    .number()
+    .optional()
+    .describe('Longitude (WGS84) or easting (projected inputCrs). Stockholm ~18.07, Gothenburg ~11.97, Malmo ~13.00'),
+  path: z
+    .array(z.array(z.number()).length(2))
+    .optional()
+    .describe(
+      'Profile line as [latitude, longitude] (or [northing, easting]) pairs, e.g. [[59.33, 18.07], [59.34, 18.09]]. For mode="profile"',
+    ),
+  endLatitude: z
+    .number()
+    .optional()
+    .describe('End latitude (or northing) for a straight profile from latitude/longitude. Alternative to path'),
+  endLongitude: z
+    .number()
+    .optional()
+    .describe('End longitude (or easting) for a straight profile from latitude/longitude. Alternative to path'),
+  spacing: z.number().optional().default(10).describe('Distance between profile samples in meters (default: 10)'),
+  points: z
+    .array(z.array(z.number()).length(2))
+    .optional()
+    .describe(
+      `Batch points as [latitude, longitude] (WGS84) or [northing, easting] (projected) pairs, max ${MAX_BATCH_POINTS}. For mode="batch"`,
+    ),
+  minLat: z.number().optional().describe('Bbox minimum latitude (WGS84) or northing. For mode="area"'),
+  minLon: z.number().optional().describe('Bbox minimum longitude (WGS84) or easting. For mode="area"'),
+  maxLat: z.number().optional().describe('Bbox maximum latitude (WGS84) or northing. For mode="area"'),
+  maxLon: z.number().optional().describe('Bbox maximum longitude (WGS84) or easting. For mode="area"'),
+  polygon: z
+    .array(z.array(z.number()).length(2))
+    .optional()
+    .describe('Area outline as [latitude, longitude] (or [northing, easting]) pairs. For mode="area", alternative to the bbox'),
+  histogramBins: z.number().optional().default(10).describe('Number of height histogram bins for mode="area" (default: 10)'),
+  ...crsInputSchema,
 };
 
 export const elevationTool = {
   name: 'lm_elevation',
   description:
-    'Get terrain elevation (height above sea level) at a specific coordinate in Sweden. ' +
+    'Get terrain elevation (height above sea level) in Sweden. ' +
     'Returns height in meters using RH 2000 reference system. ' +
-    'Coordinates in WGS84 (latitude/longitude). ' +
+    'mode="point": height at one coordinate (latitude/longitude). ' +
+    'mode="profile": heights sampled along a line (path, or latitude/longitude to endLatitude/endLongitude) with ' +
+    'distance along the line, total ascent/descent, max slope and min/max height — for road, power-line and trail planning. ' +
+    'mode="batch": heights for up to 200 points in one call, with per-point errors. ' +
+    'mode="area": min/max/mean height, height histogram, mean slope and dominant aspect over a bbox or polygon (max 25 km²), ' +
+    'read from the elevation model COG tiles. ' +
+    'Coordinates in WGS84 by default; SWEREF99 TM, regional SWEREF99 zones and RT90 via inputCrs/outputCrs. ' +
     'Requires Lantmäteriet API credentials for authenticated access.',
   inputSchema: elevationInputSchema,
 };
 
 type ElevationInput = {
-  latitude: number;
-  longitude: number;
-};
+  mode?: Mode;
+  latitude?: number;
+  longitude?: number;
+  path?: number[][];
+  endLatitude?: number;
+  endLongitude?: number;
+  spacing?: number;
+  points?: number[][];
+  minLat?: number;
+  minLon?: number;
+  maxLat?: number;
+  maxLon?: number;
+  polygon?: number[][];
+  histogramBins?: number;
+} & CrsInput;
+
+// Points without height data (e.g. open sea) yield null rather than failing the whole request
+async function elevationOrNull(point: Sweref99Point): Promise<number | null> {
+  try {
+    return (await lantmaterietClient.getElevation(point)).elevation;
+  } catch (error) {
+    if (error instanceof UpstreamApiError && error.statusCode === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Sample positions keep six decimals in WGS84; projected output is already rounded to the centimetre
+function outputPosition(point: Sweref99Point, crs: SupportedCrs) {
+  const position = fromSweref99(point, crs);
+  return 'latitude' in position ? { latitude: round(position.latitude, 6), longitude: round(position.longitude, 6) } : position;
+}
+
+function buildProfileLine(args: ElevationInput): Ring {
+  const inputPath =
+    args.path && args.path.length > 0
+      ? args.path
+      : args.latitude !== undefined &&
+          args.longitude !== undefined &&
+          args.endLatitude !== undefined &&
+          args.endLongitude !== undefined
+        ? [
+            [args.latitude, args.longitude],
+            [args.endLatitude, args.endLongitude],
+          ]
+        : undefined;
+
+  if (!inputPath || inputPath.length < 2) {
+    throw new ValidationError(
+      'For profile mode, provide path with at least two [latitude, longitude] pairs, ' +
+        'or latitude/longitude plus endLatitude/endLongitude',
+      'path',
+    );
+  }
+
+  return toSweref99Line(inputPath, args.inputCrs);
+}
+
+async function getProfile(args: ElevationInput) {
+  const outputCrs = args.outputCrs || CRS_WGS84;
+  const line = buildProfileLine(args);
+  const length = lineLength(line);
+  if (length === 0) {
+    throw new ValidationError('Profile line has zero length', 'path');
+  }
+
+  const requestedSpacing = args.spacing || 10;
+  if (requestedSpacing <= 0) {
+    throw new ValidationError('Spacing must be greater than 0 meters', 'spacing');
+  }
+  const spacing = Math.max(requestedSpacing, length / (MAX_PROFILE_SAMPLES - 1));
+
+  // Sampling happens in SWEREF99 TM so spacing is in true meters
+  const samples = sampleLine(line, spacing);
+  const heights = await mapWithConcurrency(samples, ELEVATION_CONCURRENCY, (s) =>
+    elevationOrNull({ x: s.position[0], y: s.position[1] }),
+  );
+
+  let ascent = 0;
+  let descent = 0;
+  let maxSlope = 0;
+  let previous: { distance: number; elevation: number } | undefined;
+  for (let i = 0; i < samples.length; i++) {
+    const elevation = heights[i];
+    if (elevation === null) continue;
+    if (previous) {
+      const rise = elevation - previous.elevation;
+      if (rise > 0) ascent += rise;
+      else descent -= rise;
+      maxSlope = Math.max(maxSlope, Math.abs(rise) / (samples[i].distance - previous.distance));
+    }
+    previous = { distance: samples[i].distance, elevation };
+  }
+
+  const known = heights.filter((h): h is number => h !== null);
+
+  return {
+    mode: 'profile',
+    reference_system: 'RH 2000',
+    coordinate_system: outputCrs,
+    length_meters: round(length),
+    spacing_meters: round(spacing),
+    sample_count: samples.length,
+    summary: {
+      min_elevation_meters: known.length > 0 ? round(Math.min(...known)) : null,
+      max_elevation_meters: known.length > 0 ? round(Math.max(...known)) : null,
+      total_ascent_meters: round(ascent),
+      total_descent_meters: round(descent),
+      max_slope_percent: round(maxSlope * 100),
+      max_slope_degrees: round((Math.atan(maxSlope) * 180) / Math.PI),
+    },
+    samples: samples.map((s, i) => ({
+      distance_meters: round(s.distance),
+      elevation_meters: heights[i] === null ? null : round(heights[i] as number, 2),
+      ...outputPosition({ x: s.position[0], y: s.position[1] }, outputCrs),
+    })),
+    note:
+      spacing > requestedSpacing
+        ? `Spacing increased to ${round(spacing)} m to stay within ${MAX_PROFILE_SAMPLES} samples.`
+        : known.length < samples.length
+          ? `${samples.length - known.length} samples had no height data (e.g. over open water) and are null.`
+          : undefined,
+  };
+}
+
+async function getBatch(args: ElevationInput) {
+  const points = args.points || [];
+  if (points.length === 0) {
+    throw new ValidationError('For batch mode, provide points as [latitude, longitude] or [northing, easting] pairs', 'points');
+  }
+  if (points.length > MAX_BATCH_POINTS) {
+    throw new ValidationError(`Batch mode accepts at most ${MAX_BATCH_POINTS} points — split the request`, 'points');
+  }
+
+  const outputCrs = args.outputCrs || CRS_WGS84;
+
+  // Invalid or undetectable points become per-point errors instead of failing the whole batch
+  const resolved = points.map(([first, second]) => {
+    try {
+      const sweref99 = toSweref99(first, second, args.inputCrs);
+      return { sweref99 };
+    } catch (error) {
+      return { error: error as Error };
+    }
+  });
+
+  // Identical points (to the centimetre) are only fetched once
+  const keyOf = (p: Sweref99Point) => `${p.x.toFixed(2)},${p.y.toFixed(2)}`;
+  const unique = new Map<string, Sweref99Point>();
+  for (const r of resolved) {
+    if (r.sweref99) unique.set(keyOf(r.sweref99), r.sweref99);
+  }
+
+  const uniquePoints = [...unique.entries()];
+  const outcomes = await mapWithConcurrency(uniquePoints, ELEVATION_CONCURRENCY, async ([key, point]) => {
+    try {
+      return [key, { elevation: await elevationOrNull(point) }] as const;
+    } catch (error) {
+      // Missing credentials affect every point, so fail the whole batch
+      if (error instanceof ConfigurationError) throw error;
+      return [key, { error: error as Error }] as const;
+    }
+  });
+  const byKey = new Map<string, { elevation?: number | null; error?: Error }>(outcomes);
+
+  const results = resolved.map((r, index) => {
+    const outcome = r.sweref99 ? byKey.get(keyOf(r.sweref99)) : undefined;
+    const error = r.error || outcome?.error;
+    return {
+      index,
+      input: points[index],
+      ...(r.sweref99 ? outputPosition(r.sweref99, outputCrs) : {}),
+      elevation_meters: outcome?.elevation === undefined || outcome.elevation === null ? null : round(outcome.elevation, 2),
+      error: error
+        ? {
+            code: error instanceof McpToolError ? error.code : 'INTERNAL_ERROR',
+            message: error.message,
+          }
+        : outcome?.elevation === null
+          ? { code: 'NO_DATA', message: 'No height data at this point (e.g. open water)' }
+          : undefined,
+    };
+  });
+
+  const failed = results.filter((r) => r.error).length;
+
+  return {
+    mode: 'batch',
+    reference_system: 'RH 2000',
+    input_crs: args.inputCrs ?? 'auto-detected',
+    coordinate_system: outputCrs,
+    point_count: points.length,
+    unique_point_count: uniquePoints.length,
+    succeeded: points.length - failed,
+    failed,
+    results,
+  };
+}
+
+async function getAreaStatistics(args: ElevationInput) {
+  const { geometry, bbox, area } = await resolveArea(args);
+  assertAreaWithin(area, MAX_AREA_SQUARE_METERS);
+
+  const histogramBins = Math.max(1, Math.min(50, Math.round(args.histogramBins || 10)));
+  const resolution = chooseResolution(bbox, DEM_RESOLUTION_METERS, MAX_AREA_CELLS);
+
+  const grid = await lantmaterietClient.readStacRaster(bbox, 'hojd', resolution);
+  const stats = elevationStatistics(grid, createMask(grid, geometry), histogramBins);
+
+  if (!stats) {
+    throw new NotFoundError('Elevation data', 'the requested area (it may be entirely open water or outside Sweden)');
+  }
+
+  return {
+    mode: 'area',
+    reference_system: 'RH 2000',
+    area_square_meters: Math.round(area),
+    grid_resolution_meters: resolution,
+    cell_count: stats.cellCount,
+    summary: {
+      min_elevation_meters: round(stats.min, 2),
+      max_elevation_meters: round(stats.max, 2),
+      mean_elevation_meters: round(stats.mean, 2),
+      mean_slope_degrees: round(stats.meanSlopeDegrees),
+      max_slope_degrees: round(stats.maxSlopeDegrees),
+      dominant_aspect: stats.dominantAspect,
+    },
+    aspect_distribution: Object.fromEntries(Object.entries(stats.aspectDistribution).map(([k, v]) => [k, round(v, 3)])),
+    histogram: stats.histogram.map((bin) => ({
+      from_meters: round(bin.from, 2),
+      to_meters: round(bin.to, 2),
+      cell_count: bin.count,
+    })),
+    source_tiles: sourceTiles(grid).map((item) => item.id),
+    coverage_note: grid.coverageNote,
+    note:
+      resolution > DEM_RESOLUTION_METERS
+        ? `Statistics computed on a ${resolution} m grid to keep the read size bounded. Slopes on coarser grids read lower.`
+        : undefined,
+  };
+}
 
 export const elevationHandler = withErrorHandling(async (args: ElevationInput) => {
-  const sweref99Point = wgs84ToSweref99({ latitude: args.latitude, longitude: args.longitude });
+  if (args.mode === 'profile') {
+    return getProfile(args);
+  }
+  if (args.mode === 'batch') {
+    return getBatch(args);
+  }
+  if (args.mode === 'area') {
+    return getAreaStatistics(args);
+  }
+
+  if (args.latitude === undefined || args.longitude === undefined) {
+    throw new ValidationError('For point mode, provide latitude and longitude', 'coordinates');
+  }
+
+  const outputCrs = args.outputCrs || CRS_WGS84;
+  const sweref99Point = toSweref99(args.latitude, args.longitude, args.inputCrs);
 
   const result = await lantmaterietClient.getElevation(sweref99Point);
 
   return {
     elevation_meters: result.elevation,
     reference_system: result.referenceSystem,
-    coordinate_system: CRS_WGS84,
-    coordinate: {
-      latitude: args.latitude,
-      longitude: args.longitude,
-    },
+    coordinate_system: outputCrs,
+    coordinate: fromSweref99(sweref99Point, outputCrs),
   };
 });
@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import { lantmaterietClient } from '@/clients/lantmateriet-client';
+import { round, withErrorHandling } from '@/lib/response';
+import { sweref99GeometryToCrs, CRS_WGS84 } from '@/lib/coordinates';
+import { simplifyGeometry } from '@/lib/geometry';
+import { assertAreaWithin, resolveArea, sourceTiles } from '@/lib/area';
+import { chooseResolution, vectorizeMask } from '@/lib/raster';
+import { createMask, elevationStatistics, floodExposure } from '@/lib/terrain';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { crsInputSchema, type CrsInput } from './crs-params';
+
+// Reads the 1 m grid DEM; larger areas are read from coarser overviews
+const DEM_RESOLUTION_METERS = 1;
+const MAX_AREA_CELLS = 1_000_000;
+const MAX_AREA_SQUARE_METERS = 25_000_000;
+const MAX_LEVELS = 10;
+
+export const floodExposureInputSchema = {
+  levels: z
+    .array(z.number())
+    .min(1)
+    .describe(
+      `Water levels in meters above sea level (RH 2000), max ${MAX_LEVELS}, e.g. [1, 2, 3] for sea-level rise ` +
+        'scenarios or a known high-water mark of a lake',
+    ),
+  minLat: z.number().optional().describe('Bbox minimum latitude (WGS84) or northing'),
+  minLon: z.number().optional().describe('Bbox minimum longitude (WGS84) or easting'),
+  maxLat: z.number().optional().describe('Bbox maximum latitude (WGS84) or northing'),
+  maxLon: z.number().optional().describe('Bbox maximum longitude (WGS84) or easting'),
+  polygon: z
+    .array(z.array(z.number()).length(2))
+    .optional()
+    .describe('Area outline as [latitude, longitude] (or [northing, easting]) pairs, alternative to the bbox'),
+  designation: z.string().optional().describe('Property designation, e.g. "UPPSALA KÅBO 1:1", to use its boundary as the area'),
+  includeGeometry: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Include the outline of the area below each level as a GeoJSON (Multi)Polygon (default: true)'),
+  ...crsInputSchema,
+};
+
+export const floodExposureTool = {
+  name: 'lm_flood_exposure',
+  description:
+    'Find which parts of a property, polygon or bbox in Sweden lie below given water levels, for flooding and ' +
+    'sea-level rise questions. Returns per level the area below it, the share of the area affected, the maximum and ' +
+    'mean depth, and an outline polygon, computed from the Lantmäteriet elevation model (RH 2000 heights) rather ' +
+    `than a single point. Max ${MAX_AREA_SQUARE_METERS / 1e6} km². ` +
+    'Coordinates in WGS84 by default; SWEREF99 TM, regional SWEREF99 zones and RT90 via inputCrs/outputCrs.',
+  inputSchema: floodExposureInputSchema,
+};
+
+type FloodExposureInput = {
+  levels: number[];
+  minLat?: number;
+  minLon?: number;
+  maxLat?: number;
+  maxLon?: number;
+  polygon?: number[][];
+  designation?: string;
+  includeGeometry?: boolean;
+} & CrsInput;
+
+export const floodExposureHandler = withErrorHandling(async (args: FloodExposureInput) => {
+  const levels = [...new Set(args.levels ?? [])].sort((a, b) => a - b);
+  if (levels.length === 0) {
+    throw new ValidationError('Provide at least one water level in meters (RH 2000)', 'levels');
+  }
+  if (levels.length > MAX_LEVELS) {
+    throw new ValidationError(`At most ${MAX_LEVELS} water levels per request`, 'levels');
+  }
+
+  const outputCrs = args.outputCrs || CRS_WGS84;
+  const { geometry, bbox, source, area } = await resolveArea(args, (designation) =>
+    lantmaterietClient.findPropertyByDesignation(designation),
+  );
+  assertAreaWithin(area, MAX_AREA_SQUARE_METERS);
+
+  const resolution = chooseResolution(bbox, DEM_RESOLUTION_METERS, MAX_AREA_CELLS);
+  const grid = await lantmaterietClient.readStacRaster(bbox, 'hojd', resolution);
+  const mask = createMask(grid, geometry);
+  const stats = elevationStatistics(grid, mask, 1);
+  if (!stats) {
+    throw new NotFoundError('Elevation data', 'the requested area (it may be entirely open water or outside Sweden)');
+  }
+
+  const results = levels.map((level) => floodExposure(grid, mask, level));
+  const exposures = results.map((exposure) => {
+    // Of the whole area, so cells without height data (open water) count as not below the level
+    const fraction = exposure.belowCount / exposure.maskCount;
+    const outline = args.includeGeometry === false ? null : vectorizeMask(grid, exposure.below);
+    return {
+      level_meters: exposure.level,
+      // Scaled to the exact area, as cells on the edge are only partly inside it
+      area_below_square_meters: Math.round(fraction * area),
+      fraction_below: round(fraction, 4),
+      percent_below: round(fraction * 100, 2),
+      max_depth_meters: round(exposure.maxDepth, 2),
+      mean_depth_meters: round(exposure.meanDepth, 2),
+      // Simplified to the grid resolution so the outline stays a manageable size
+      below_area: outline ? sweref99GeometryToCrs(simplifyGeometry(outline, resolution), outputCrs) : undefined,
+    };
+  });
+
+  return {
+    area_source: source,
+    reference_system: 'RH 2000',
+    coordinate_system: outputCrs,
+    area_square_meters: Math.round(area),
+    grid_resolution_meters: resolution,
+    cell_count: stats.cellCount,
+    // Share of the area without height data, mostly open water, which never counts as below a level
+    no_data_percent: round((1 - results[0].cellCount / results[0].maskCount) * 100, 2),
+    min_elevation_meters: round(stats.min, 2),
+    max_elevation_meters: round(stats.max, 2),
+    mean_elevation_meters: round(stats.mean, 2),
+    levels: exposures,
+    source_tiles: sourceTiles(grid).map((item) => item.id),
+    coverage_note: grid.coverageNote,
+    note:
+      'Every cell below a level is counted, including hollows with no connection to the sea or a watercourse, and ' +
+      'without embankments or drainage. Open water surfaces have no height data and are left out. Use it as a first ' +
+      'screening, not a flood hazard map.',
+  };
+});
@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { lantmaterietClient } from '@/clients/lantmateriet-client';
+import { withErrorHandling } from '@/lib/response';
+import { toSweref99, fromSweref99, sweref99GeometryToCrs, CRS_WGS84, type SupportedCrs } from '@/lib/coordinates';
+import { bboxPolygon, closestPoints, geometryBbox } from '@/lib/geometry';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import type { GeoJsonGeometry } from '@/types/lantmateriet';
+import { crsInputSchema, type CrsInput } from './crs-params';
+
+const QUERY_TYPES = ['coordinate', 'property'] as const;
+type QueryType = (typeof QUERY_TYPES)[number];
+
+const MAX_RADIUS_METERS = 5000;
+
+// General strandskydd zone under Miljöbalken 7 kap. 14 §; the county board may extend it to 300 m
+const STRANDSKYDD_METERS = 100;
+const EXTENDED_STRANDSKYDD_METERS = 300;
+
+export const hydrographyInputSchema = {
+  queryType: z
+    .enum(QUERY_TYPES)
+    .describe('Search method: "coordinate" (distances from a location), "property" (distances from a property boundary)'),
+  latitude: z
+    .number()
+    .optional()
+    .describe('Latitude (WGS84) or northing (projected inputCrs). Stockholm ~59.33. Use with queryType="coordinate"'),
+  longitude: z
+    .number()
+    .optional()
+    .describe('Longitude (WGS84) or easting (projected inputCrs). Stockholm ~18.07. Use with queryType="coordinate"'),
+  designation: z
+    .string()
+    .optional()
+    .describe('Property designation, e.g. "NORRTÄLJE RÅDMANSÖ 1:1". Use with queryType="property"'),
+  radius: z.number().optional().default(500).describe(`Search radius in meters (default: 500, max: ${MAX_RADIUS_METERS})`),
+  includeGeometry: z.boolean().optional().default(false).describe('Include water feature geometry as GeoJSON (default: false)'),
+  maxResults: z.number().optional().default(25).describe('Maximum water features to return, nearest first (default: 25)'),
+  ...crsInputSchema,
+};
+
+export const hydrographyTool = {
+  name: 'lm_hydrography',
+  description:
+    'Find lakes, watercourses and sea (Hydrografi) near a Swedish coordinate or property, with names, types and distances. ' +
+    'Returns the shortest distance from the point or property boundary to the nearest shoreline and whether it lies within ' +
+    `the general ${STRANDSKYDD_METERS} m strandskydd (shoreline protection) zone. ` +
+    'Coordinates in WGS84 by default; SWEREF99 TM, regional SWEREF99 zones and RT90 via inputCrs/outputCrs. ' +
+    'Requires Lantmäteriet API credentials for authenticated access.',
+  inputSchema: hydrographyInputSchema,
+};
+
+type HydrographyInput = {
+  queryType: QueryType;
+  latitude?: number;
+  longitude?: number;
+  designation?: string;
+  radius?: number;
+  includeGeometry?: boolean;
+  maxResults?: number;
+} & CrsInput;
+
+type Origin = { geometry: GeoJsonGeometry; property?: { beteckning: string; objektidentitet: string } };
+
+async function resolveOrigin(args: HydrographyInput): Promise<Origin> {
+  if (args.queryType === 'property') {
+    if (!args.designation) {
+      throw new ValidationError('designation is required for property query', 'designation');
+    }
+    const property = await lantmaterietClient.findPropertyByDesignation(args.designation);
+    if (!property?.geometry) {
+      throw new NotFoundError('Property', args.designation);
+    }
+    return {
+      geometry: property.geometry,
+      property: { beteckning: property.beteckning, objektidentitet: property.objektidentitet },
+    };
+  }
+
+  if (args.latitude === undefined || args.longitude === undefined) {
+    throw new ValidationError('For coordinate query, provide latitude and longitude', 'coordinates');
+  }
+  const point = toSweref99(args.latitude, args.longitude, args.inputCrs);
+  return { geometry: { type: 'Point', coordinates: [point.x, point.y] } };
+}
+
+// Upstream is queried with the property's bbox so long boundaries don't overflow the URL; exact distances follow
+function queryGeometry(origin: GeoJsonGeometry): GeoJsonGeometry {
+  return origin.type === 'Point' ? origin : bboxPolygon(geometryBbox(origin));
+}
+
+function outputPosition([x, y]: number[], crs: SupportedCrs) {
+  return fromSweref99({ x, y }, crs);
+}
+
+// null when no water was found and the search radius is smaller than the zone, so the answer is unknown
+function strandskydd(distance: number | undefined, radius: number) {
+  const within = (zone: number) => (distance !== undefined ? distance <= zone : radius >= zone ? false : null);
+  return {
+    within_general_zone: within(STRANDSKYDD_METERS),
+    within_extended_zone_distance: within(EXTENDED_STRANDSKYDD_METERS),
+  };
+}
+
+export const hydrographyHandler = withErrorHandling(async (args: HydrographyInput) => {
+  const radius = args.radius ?? 500;
+  if (radius <= 0 || radius > MAX_RADIUS_METERS) {
+    throw new ValidationError(`radius must be between 1 and ${MAX_RADIUS_METERS} meters`, 'radius');
+  }
+  const outputCrs = args.outputCrs || CRS_WGS84;
+  const maxResults = args.maxResults || 25;
+
+  const origin = await resolveOrigin(args);
+  const features = await lantmaterietClient.findWaterFeatures(queryGeometry(origin.geometry), radius);
+
+  const measured = features
+    .map((water) => ({ water, ...closestPoints(origin.geometry, water.geometry) }))
+    .filter((m) => m.distance <= radius)
+    .sort((a, b) => a.distance - b.distance);
+  const nearest = measured[0];
+
+  return {
+    query_type: args.queryType,
+    coordinate_system: outputCrs,
+    search_coordinate: origin.property ? undefined : outputPosition(origin.geometry.coordinates as number[], outputCrs),
+    property: origin.property,
+    radius_meters: radius,
+    nearest_shoreline: nearest
+      ? {
+          namn: nearest.water.namn ?? null,
+          objekttyp: nearest.water.objekttyp,
+          distance_meters: Math.round(nearest.distance * 10) / 10,
+          // Where the shortest distance is measured from and to
+          from: outputPosition(nearest.from, outputCrs),
+          shoreline_point: outputPosition(nearest.to, outputCrs),
+          in_or_touching_water: nearest.distance === 0,
+        }
+      : null,
+    strandskydd: strandskydd(nearest?.distance, radius),
+    totalCount: measured.length,
+    water_features: measured.slice(0, maxResults).map((m) => ({
+      namn: m.water.namn ?? null,
+      objekttyp: m.water.objekttyp,
+      objektidentitet: m.water.objektidentitet,
+      distance_meters: Math.round(m.distance * 10) / 10,
+      geometry: args.includeGeometry ? sweref99GeometryToCrs(m.water.geometry, outputCrs) : undefined,
+    })),
+    note: !nearest
+      ? `No water features within ${radius} m. Increase radius (max ${MAX_RADIUS_METERS} m) to search further.`
+      : `Strandskydd applies within ${STRANDSKYDD_METERS} m of the shoreline by default and can be extended to ` +
+        `${EXTENDED_STRANDSKYDD_METERS} m or lifted by the county board (länsstyrelsen) or municipality. ` +
+        'Check local decisions before relying on within_general_zone.',
+  };
+});
@@ -4,12 +4,34 @@ import { propertySearchTool, propertySearchHandler } from './property-search';
 import { elevationTool, elevationHandler } from './elevation';
 import { mapUrlTool, mapUrlHandler } from './map-url';
 import { stacSearchTool, stacSearchHandler } from './stac-search';
+import { buildingsTool, buildingsHandler } from './buildings';
+import { placeSearchTool, placeSearchHandler } from './place-search';
+import { addressSearchTool, addressSearchHandler } from './address-search';
+import { administrativeUnitsTool, administrativeUnitsHandler } from './administrative-units';
+import { landCoverTool, landCoverHandler } from './land-cover';
+import { hydrographyTool, hydrographyHandler } from './hydrography';
+import { propertyReportTool, propertyReportHandler } from './property-report';
+import { rasterExportTool, rasterExportHandler } from './raster-export';
+import { vegetationIndexTool, vegetationIndexHandler } from './vegetation-index';
+import { visibilityTool, visibilityHandler } from './visibility';
+import { floodExposureTool, floodExposureHandler } from './flood-exposure';
 
 const tools = [
   { definition: propertySearchTool, handler: propertySearchHandler },
   { definition: elevationTool, handler: elevationHandler },
   { definition: mapUrlTool, handler: mapUrlHandler },
   { definition: stacSearchTool, handler: stacSearchHandler },
+  { definition: buildingsTool, handler: buildingsHandler },
+  { definition: placeSearchTool, handler: placeSearchHandler },
+  { definition: addressSearchTool, handler: addressSearchHandler },
+  { definition: administrativeUnitsTool, handler: administrativeUnitsHandler },
+  { definition: landCoverTool, handler: landCoverHandler },
+  { definition: hydrographyTool, handler: hydrographyHandler },
+  { definition: propertyReportTool, handler: propertyReportHandler },
+  { definition: rasterExportTool, handler: rasterExportHandler },
+  { definition: vegetationIndexTool, handler: vegetationIndexHandler },
+  { definition: visibilityTool, handler: visibilityHandler },
+  { definition: floodExposureTool, handler: floodExposureHandler },
 ];
 
 export function registerAllTools(server: McpServer): void {
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { lantmaterietClient } from '@/clients/lantmateriet-client';
+import { round, withErrorHandling } from '@/lib/response';
+import { toSweref99, fromSweref99, CRS_WGS84 } from '@/lib/coordinates';
+import { pointInGeometry } from '@/lib/geometry';
+import { assertAreaWithin, resolveArea } from '@/lib/area';
+import { chooseResolution, createGrid } from '@/lib/raster';
+import { createMask } from '@/lib/terrain';
+import { landCoverBreakdown, landCoverCategory, summarizeLandCover } from '@/lib/land-cover';
+import { ValidationError } from '@/lib/errors';
+import { crsInputSchema, type CrsInput } from './crs-params';
+
+const MODES = ['point', 'area'] as const;
+type Mode = (typeof MODES)[number];
+
+// Areas are measured on a grid over the Marktäcke polygons; 1 m cells for small areas, coarser for large ones
+const GRID_RESOLUTION_METERS = 1;
+const MAX_AREA_CELLS = 1_000_000;
+const MAX_AREA_SQUARE_METERS = 25_000_000;
+
+export const landCoverInputSchema = {
+  mode: z
+    .enum(MODES)
+    .optional()
+    .default('point')
+    .describe(
+      '"point" (land-cover class at one coordinate, default) or "area" (area per class over a bbox, polygon or property)',
+    ),
+  latitude: z
+    .number()
+    .optional()
+    .describe('Latitude (WGS84) or northing (projected inputCrs). Stockholm ~59.33. For mode="point"'),
+  longitude: z
+    .number()
+    .optional()
+    .describe('Longitude (WGS84) or easting (projected inputCrs). Stockholm ~18.07. For mode="point"'),
+  minLat: z.number().optional().describe('Bbox minimum latitude (WGS84) or northing. For mode="area"'),
+  minLon: z.number().optional().describe('Bbox minimum longitude (WGS84) or easting. For mode="area"'),
+  maxLat: z.number().optional().describe('Bbox maximum latitude (WGS84) or northing. For mode="area"'),
+  maxLon: z.number().optional().describe('Bbox maximum longitude (WGS84) or easting. For mode="area"'),
+  polygon: z
+    .array(z.array(z.number()).length(2))
+    .optional()
+    .describe('Area outline as [latitude, longitude] (or [northing, easting]) pairs. For mode="area", alternative to the bbox'),
+  designation: z
+    .string()
+    .optional()
+    .describe('Property designation, e.g. "UPPSALA KÅBO 1:1", to use its boundary as the area. For mode="area"'),
+  ...crsInputSchema,
+};
+
+export const landCoverTool = {
+  name: 'lm_land_cover',
+  description:
+    'Land cover (Marktäcke) for environmental screening in Sweden. ' +
+    'mode="point": the land-cover class at a coordinate. ' +
+    'mode="area": area in m² and percent per class and per category (forest, wetland, arable, built_up, water, open_land, other) ' +
+    `over a bbox, polygon or property (max ${MAX_AREA_SQUARE_METERS / 1e6} km²). ` +
+    'Coordinates in WGS84 by default; SWEREF99 TM, regional SWEREF99 zones and RT90 via inputCrs/outputCrs. ' +
+    'Requires Lantmäteriet API credentials for authenticated access.',
+  inputSchema: landCoverInputSchema,
+};
+
+type LandCoverInput = {
+  mode?: Mode;
+  latitude?: number;
+  longitude?: number;
+  minLat?: number;
+  minLon?: number;
+  maxLat?: number;
+  maxLon?: number;
+  polygon?: number[][];
+  designation?: string;
+} & CrsInput;
+
+async function getPointLandCover(args: LandCoverInput) {
+  if (args.latitude === undefined || args.longitude === undefined) {
+    throw new ValidationError('For point mode, provide latitude and longitude', 'coordinates');
+  }
+
+  const outputCrs = args.outputCrs || CRS_WGS84;
+  const point = toSweref99(args.latitude, args.longitude, args.inputCrs);
+  const features = await lantmaterietClient.findLandCover({ point });
+  const match = features.find((f) => pointInGeometry([point.x, point.y], f.geometry)) ?? features[0];
+
+  return {
+    mode: 'point',
+    coordinate_system: outputCrs,
+    coordinate: fromSweref99(point, outputCrs),
+    land_cover: match ? { class: match.objekttyp, category: landCoverCategory(match.objekttyp) } : null,
+    note: match ? undefined : 'No land-cover data at this location. Check that the coordinate is within Sweden.',
+  };
+}
+
+async function getAreaLandCover(args: LandCoverInput) {
+  const { geometry, bbox, source, area } = await resolveArea(args, (designation) =>
+    lantmaterietClient.findPropertyByDesignation(designation),
+  );
+  assertAreaWithin(area, MAX_AREA_SQUARE_METERS);
+
+  const resolution = chooseResolution(bbox, GRID_RESOLUTION_METERS, MAX_AREA_CELLS);
+  const grid = createGrid(bbox, resolution, 0);
+  const features = await lantmaterietClient.findLandCover({ bbox });
+  const breakdown = landCoverBreakdown(grid, createMask(grid, geometry), features);
+
+  if (breakdown.cellCount === 0) {
+    throw new ValidationError('The area is smaller than one grid cell', 'area');
+  }
+
+  return {
+    mode: 'area',
+    area_source: source,
+    area_square_meters: Math.round(area),
+    grid_resolution_meters: resolution,
+    ...summarizeLandCover(breakdown, area),
+    note:
+      features.length === 0
+        ? 'No land-cover data in this area. Check that it is within Sweden.'
+        : `Areas are measured on a ${resolution} m grid, so narrow features (streams, roads) may be under-counted.`,
+  };
+}
+
+export const landCoverHandler = withErrorHandling(async (args: LandCoverInput) => {
+  if (args.mode === 'area') {
+    return getAreaLandCover(args);
+  }
+  return getPointLandCover(args);
+});
@@ -1,24 +1,52 @@
 import { z } from 'zod';
 import { lantmaterietClient } from '@/clients/lantmateriet-client';
-import { withErrorHandling } from '@/lib/response';
-import { wgs84ToSweref99, wgs84BboxToSweref99, sweref99BboxToWgs84, validateBbox, CRS_WGS84 } from '@/lib/coordinates';
-import { ValidationError } from '@/lib/errors';
+import { withErrorHandling, ImageResult } from '@/lib/response';
+import {
+  toSweref99,
+  toSweref99Bbox,
+  toSweref99Polygon,
+  fromSweref99,
+  geometryToSweref99,
+  detectCrs,
+  sweref99BboxToCrs,
+  validateBbox,
+  CRS_WGS84,
+  type BoundingBox,
+} from '@/lib/coordinates';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { composeMap, stitchTiles, LANTMATERIET_ATTRIBUTION, type RenderedImage } from '@/lib/map-render';
+import { proxyPropertyMapUrl, proxyTileUrl, proxyTileUrlTemplate } from '@/lib/tile-proxy';
+import type { GeoJsonGeometry, MapUrlResult } from '@/types/lantmateriet';
+import { crsInputSchema, type CrsInput } from './crs-params';
 
 const MAP_TYPES = ['topographic', 'orthophoto', 'property'] as const;
 type MapType = (typeof MAP_TYPES)[number];
 
+const TILE_CONCURRENCY = 6;
+
+// Keeps the overlay SVG a reasonable size; simplify large geometries before passing them in
+const MAX_OVERLAY_VERTICES = 20000;
+const OVERLAY_GEOMETRY_TYPES = ['Point', 'LineString', 'Polygon', 'MultiPolygon'];
+
 export const mapUrlInputSchema = {
   mapType: z
     .enum(MAP_TYPES)
     .describe(
       'Map type: "topographic" (terrain with roads/labels), "orthophoto" (aerial imagery), "property" (property boundaries)',
     ),
-  latitude: z.number().optional().describe('Center latitude (WGS84). Stockholm ~59.33. For topographic/orthophoto maps'),
-  longitude: z.number().optional().describe('Center longitude (WGS84). Stockholm ~18.07. For topographic/orthophoto maps'),
-  minLat: z.number().optional().describe('Bbox minimum latitude (WGS84). For property maps'),
-  minLon: z.number().optional().describe('Bbox minimum longitude (WGS84). For property maps'),
-  maxLat: z.number().optional().describe('Bbox maximum latitude (WGS84). For property maps'),
-  maxLon: z.number().optional().describe('Bbox maximum longitude (WGS84). For property maps'),
+  latitude: z
+    .number()
+    .optional()
+    .describe('Center latitude (WGS84) or northing. Stockholm ~59.33. For topographic/orthophoto maps'),
+  longitude: z
+    .number()
+    .optional()
+    .describe('Center longitude (WGS84) or easting. Stockholm ~18.07. For topographic/orthophoto maps'),
+  minLat: z.number().optional().describe('Bbox minimum latitude (WGS84) or northing. For property maps'),
+  minLon: z.number().optional().describe('Bbox minimum longitude (WGS84) or easting. For property maps'),
+  maxLat: z.number().optional().describe('Bbox maximum latitude (WGS84) or northing. For property maps'),
+  maxLon: z.number().optional().describe('Bbox maximum longitude (WGS84) or easting. For property maps'),
   width: z
     .number()
     .optional()
@@ -29,6 +57,46 @@ export const mapUrlInputSchema = {
     .optional()
     .default(1000)
     .describe('Height in meters (topographic/orthophoto) or pixels (property). Default 1000'),
+  zoom: z
+    .number()
+    .optional()
+    .describe(
+      'Tile matrix level in the 3006 tile matrix set for topographic/orthophoto (0 = 4096 m/px, each level halves it). ' +
+        'Chosen automatically if omitted',
+    ),
+  render: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      'Also return the map as a PNG image (tiles stitched and cropped server-side, Lantmäteriet attribution burned in). ' +
+        'Implied by any overlay. Default false',
+    ),
+  propertyBoundaries: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Draw property boundaries (Fastighetsindelning WMS) on top of a rendered topographic/orthophoto map'),
+  markers: z
+    .array(z.array(z.number()).length(2))
+    .optional()
+    .describe('Marker points drawn on the rendered map, as [latitude, longitude] (or [northing, easting]) pairs'),
+  lines: z
+    .array(z.array(z.array(z.number()).length(2)))
+    .optional()
+    .describe('Routes drawn on the rendered map, each a list of [latitude, longitude] (or [northing, easting]) pairs'),
+  polygons: z
+    .array(z.array(z.array(z.number()).length(2)))
+    .optional()
+    .describe('Areas drawn on the rendered map, each an outline of [latitude, longitude] (or [northing, easting]) pairs'),
+  overlayGeoJson: z
+    .string()
+    .optional()
+    .describe(
+      'GeoJSON geometry, Feature or FeatureCollection to draw, e.g. the geometry returned by lm_property_search or lm_buildings. ' +
+        'Positions in GeoJSON [x, y] order in inputCrs',
+    ),
+  ...crsInputSchema,
 };
 
 export const mapUrlTool = {
@@ -37,9 +105,13 @@ export const mapUrlTool = {
     'Generate map URLs for Swedish geodata. ' +
     'Topographic and orthophoto maps use open CC-BY WMTS (no auth). ' +
     'Property boundaries use WMS. ' +
-    'For topographic/orthophoto: provide center point (latitude, longitude) and dimensions. ' +
+    'For topographic/orthophoto: provide center point (latitude, longitude) and dimensions; returns the concrete tile URLs ' +
+    '(tile matrix, row, column in the 3006 tile matrix set) covering the area. ' +
     'For property: provide bounding box (minLat, minLon, maxLat, maxLon). ' +
-    'All coordinates in WGS84.',
+    'Tiles also get proxy_url links through this server (cached, no auth needed) when PUBLIC_BASE_URL is set. ' +
+    'Set render=true to get the map as a PNG image; markers, lines, polygons, overlayGeoJson and propertyBoundaries ' +
+    'are drawn onto it (e.g. show a found parcel on an orthophoto). ' +
+    'Coordinates in WGS84 by default (see inputCrs/outputCrs).',
   inputSchema: mapUrlInputSchema,
 };
 
@@ -53,69 +125,169 @@ type MapUrlInput = {
   maxLon?: number;
   width?: number;
   height?: number;
-};
+  zoom?: number;
+  render?: boolean;
+  propertyBoundaries?: boolean;
+  markers?: number[][];
+  lines?: number[][][];
+  polygons?: number[][][];
+  overlayGeoJson?: string;
+} & CrsInput;
 
-export const mapUrlHandler = withErrorHandling(async (args: MapUrlInput) => {
-  const { mapType, width = 1000, height = 1000 } = args;
+function parseOverlayGeoJson(text: string): GeoJsonGeometry[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new ValidationError('overlayGeoJson is not valid JSON', 'overlayGeoJson');
+  }
 
-  switch (mapType) {
-    case 'topographic': {
-      if (args.latitude === undefined || args.longitude === undefined) {
-        throw new ValidationError('For topographic map, provide center point as latitude and longitude (WGS84)', 'coordinates');
-      }
+  const collect = (item: unknown): GeoJsonGeometry[] => {
+    if (Array.isArray(item)) return item.flatMap(collect);
+    const object = item as { type?: string; geometry?: unknown; features?: unknown[]; geometries?: unknown[] } | null;
+    if (object?.type === 'FeatureCollection') return (object.features ?? []).flatMap(collect);
+    if (object?.type === 'Feature') return object.geometry ? collect(object.geometry) : [];
+    if (object?.type === 'GeometryCollection') return (object.geometries ?? []).flatMap(collect);
+    if (object?.type && OVERLAY_GEOMETRY_TYPES.includes(object.type)) return [object as GeoJsonGeometry];
+    throw new ValidationError(
+      `overlayGeoJson must contain ${OVERLAY_GEOMETRY_TYPES.join(', ')} geometries (got ${object?.type ?? typeof item})`,
+      'overlayGeoJson',
+    );
+  };
+  return collect(value);
+}
 
-      const sweref99Point = wgs84ToSweref99({ latitude: args.latitude, longitude: args.longitude });
-      const result = lantmaterietClient.getTopographicMapUrl(sweref99Point, { width, height });
+// All overlays share one CRS, detected from the first coordinate when inputCrs is omitted
+function buildOverlays(args: MapUrlInput): GeoJsonGeometry[] {
+  const firstPair = args.markers?.[0] ?? args.lines?.[0]?.[0] ?? args.polygons?.[0]?.[0];
+  const crs = args.inputCrs ?? (firstPair ? detectCrs(firstPair[0], firstPair[1]) : undefined);
 
-      const wgs84Bbox = result.bbox ? sweref99BboxToWgs84(result.bbox) : undefined;
+  const toPosition = ([first, second]: number[]) => {
+    const { x, y } = toSweref99(first, second, crs);
+    return [x, y];
+  };
 
-      return {
-        map_type: 'topographic',
-        url: result.url,
-        url_template_note: 'WMTS URL template - replace {z}/{y}/{x} with tile coordinates',
-        layers: result.layers,
-        crs: CRS_WGS84,
-        center: { latitude: args.latitude, longitude: args.longitude },
-        bbox: wgs84Bbox,
-        license: 'CC-BY 4.0 Lantmäteriet',
-        auth_required: false,
-      };
-    }
+  const geometries: GeoJsonGeometry[] = [
+    ...(args.polygons ?? []).map((outline) => toSweref99Polygon(outline, crs)),
+    ...(args.lines ?? []).map((line) => {
+      if (line.length < 2) throw new ValidationError('Each line needs at least two coordinate pairs', 'lines');
+      return { type: 'LineString' as const, coordinates: line.map(toPosition) };
+    }),
+    ...(args.markers ?? []).map((marker) => ({ type: 'Point' as const, coordinates: toPosition(marker) })),
+    ...(args.overlayGeoJson
+      ? parseOverlayGeoJson(args.overlayGeoJson).map((geometry) => geometryToSweref99(geometry, args.inputCrs))
+      : []),
+  ];
 
+  const vertices = geometries.reduce((sum, g) => sum + (g.coordinates as unknown[]).flat(3).length / 2, 0);
+  if (vertices > MAX_OVERLAY_VERTICES) {
+    throw new ValidationError(
+      `Overlays have ${vertices} vertices (max ${MAX_OVERLAY_VERTICES}). Simplify the geometries first.`,
+      'overlayGeoJson',
+    );
+  }
+  return geometries;
+}
+
+// Property boundaries and overlays are drawn over the base map, with the CC-BY attribution
+async function composeOverlays(
+  base: RenderedImage,
+  bbox: BoundingBox,
+  geometries: GeoJsonGeometry[],
+  propertyBoundaries: boolean,
+): Promise<RenderedImage> {
+  const layers: Buffer[] = [];
+  if (propertyBoundaries) {
+    const wms = lantmaterietClient.getPropertyMapUrl(bbox, { width: base.width, height: base.height });
+    const image = await lantmaterietClient.fetchMapImage(wms.url, { authenticated: true });
+    if (image) layers.push(image);
+  }
+  return composeMap(base, bbox, { layers, geometries });
+}
+
+// Tiles are fetched in parallel, stitched and cropped to exactly the requested area
+async function renderTiles(result: MapUrlResult) {
+  if (!result.tiles || !result.tileRange || !result.bbox) {
+    throw new ValidationError('This map has no tiles to render', 'render');
+  }
+  const images = await mapWithConcurrency(result.tiles, TILE_CONCURRENCY, async (tile) => ({
+    tile,
+    image: await lantmaterietClient.fetchMapImage(tile.url),
+  }));
+  return stitchTiles(result.tileRange, images, result.bbox);
+}
+
+export const mapUrlHandler = withErrorHandling(async (args: MapUrlInput) => {
+  const { mapType, width = 1000, height = 1000 } = args;
+  const outputCrs = args.outputCrs || CRS_WGS84;
+  const overlays = buildOverlays(args);
+  const render = args.render || overlays.length > 0 || !!args.propertyBoundaries;
+
+  switch (mapType) {
+    case 'topographic':
     case 'orthophoto': {
       if (args.latitude === undefined || args.longitude === undefined) {
-        throw new ValidationError('For orthophoto map, provide center point as latitude and longitude (WGS84)', 'coordinates');
+        throw new ValidationError(`For ${mapType} map, provide center point as latitude and longitude`, 'coordinates');
       }
 
-      const sweref99Point = wgs84ToSweref99({ latitude: args.latitude, longitude: args.longitude });
-      const result = lantmaterietClient.getOrthophotoMapUrl(sweref99Point, { width, height });
-
-      const wgs84Bbox = result.bbox ? sweref99BboxToWgs84(result.bbox) : undefined;
+      const sweref99Point = toSweref99(args.latitude, args.longitude, args.inputCrs);
+      const options = { width, height, zoom: args.zoom };
+      const result =
+        mapType === 'topographic'
+          ? lantmaterietClient.getTopographicMapUrl(sweref99Point, options)
+          : lantmaterietClient.getOrthophotoMapUrl(sweref99Point, options);
+      const image =
+        render && result.bbox
+          ? await composeOverlays(await renderTiles(result), result.bbox, overlays, !!args.propertyBoundaries)
+          : undefined;
 
-      return {
-        map_type: 'orthophoto',
+      const data = {
+        map_type: mapType,
         url: result.url,
-        url_template_note: 'WMTS URL template - replace {z}/{y}/{x} with tile coordinates',
+        url_template_note: 'WMTS URL template in the 3006 tile matrix set: {z} = TileMatrix, {y} = TileRow, {x} = TileCol',
         layers: result.layers,
-        crs: CRS_WGS84,
-        center: { latitude: args.latitude, longitude: args.longitude },
-        bbox: wgs84Bbox,
+        crs: outputCrs,
+        center: fromSweref99(sweref99Point, outputCrs),
+        bbox: result.bbox ? sweref99BboxToCrs(result.bbox, outputCrs) : undefined,
+        tile_matrix_set: result.tileMatrixSet,
+        zoom: result.zoom,
+        max_zoom: result.maxZoom,
+        resolution_meters_per_pixel: result.resolution,
+        tile_count: result.tiles?.length,
+        tiles: result.tiles?.map((tile) => ({
+          ...tile,
+          proxy_url: proxyTileUrl(result.layers[0], tile.zoom, tile.row, tile.col),
+        })),
+        proxy_url_template: proxyTileUrlTemplate(result.layers[0]),
+        image: image
+          ? {
+              width: image.width,
+              height: image.height,
+              format: 'image/png',
+              overlay_count: overlays.length,
+              property_boundaries: !!args.propertyBoundaries,
+            }
+          : undefined,
         license: 'CC-BY 4.0 Lantmäteriet',
+        attribution: LANTMATERIET_ATTRIBUTION,
         auth_required: false,
+        note:
+          args.zoom !== undefined && args.zoom !== result.zoom
+            ? `Zoom ${args.zoom} is outside the levels this layer serves; used ${result.zoom} instead.`
+            : undefined,
       };
+      return image ? new ImageResult(data, image.png) : data;
     }
 
     case 'property': {
       if (args.minLat === undefined || args.minLon === undefined || args.maxLat === undefined || args.maxLon === undefined) {
-        throw new ValidationError('For property map, provide bounding box as minLat, minLon, maxLat, maxLon (WGS84)', 'bbox');
+        throw new ValidationError('For property map, provide bounding box as minLat, minLon, maxLat, maxLon', 'bbox');
       }
 
-      const sweref99Bbox = wgs84BboxToSweref99({
-        minLat: args.minLat,
-        minLon: args.minLon,
-        maxLat: args.maxLat,
-        maxLon: args.maxLon,
-      });
+      const sweref99Bbox = toSweref99Bbox(
+        { minLat: args.minLat, minLon: args.minLon, maxLat: args.maxLat, maxLon: args.maxLon },
+        args.inputCrs,
+      );
 
       validateBbox(sweref99Bbox);
 
@@ -124,16 +296,30 @@ export const mapUrlHandler = withErrorHandling(async (args: MapUrlInput) => {
         height: Math.min(height, 2048),
       });
 
-      return {
+      const data = {
         map_type: 'property',
         url: result.url,
         layers: result.layers,
-        crs: CRS_WGS84,
-        bbox: { minLat: args.minLat, minLon: args.minLon, maxLat: args.maxLat, maxLon: args.maxLon },
+        crs: outputCrs,
+        bbox: sweref99BboxToCrs(sweref99Bbox, outputCrs),
         image_size: { width: Math.min(width, 2048), height: Math.min(height, 2048) },
         format: 'image/png',
         auth_required: false,
+        proxy_url: proxyPropertyMapUrl(sweref99Bbox, Math.min(width, 2048), Math.min(height, 2048)),
       };
+      if (!render) return data;
+
+      // WMS already returns a single image for the bbox; overlays and attribution go on top
+      const image = await lantmaterietClient.fetchMapImage(result.url, { authenticated: true });
+      if (!image) {
+        throw new NotFoundError('Property map image', 'the requested bounding box');
+      }
+      const composed = await composeMap(
+        { png: image, width: data.image_size.width, height: data.image_size.height },
+        sweref99Bbox,
+        { geometries: overlays },
+      );
+      return new ImageResult({ ...data, overlay_count: overlays.length, attribution: LANTMATERIET_ATTRIBUTION }, composed.png);
     }
 
     default:
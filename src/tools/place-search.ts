@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import { lantmaterietClient } from '@/clients/lantmateriet-client';
+import { withErrorHandling } from '@/lib/response';
+import { toSweref99, fromSweref99, CRS_WGS84, type SupportedCrs } from '@/lib/coordinates';
+import { ValidationError } from '@/lib/errors';
+import type { PlaceNameResult } from '@/types/lantmateriet';
+import { crsInputSchema, type CrsInput } from './crs-params';
+
+const QUERY_TYPES = ['name', 'coordinate'] as const;
+type QueryType = (typeof QUERY_TYPES)[number];
+
+const MAX_RADIUS_METERS = 10000;
+
+export const placeSearchInputSchema = {
+  queryType: z
+    .enum(QUERY_TYPES)
+    .describe('Search method: "name" (place name to coordinates), "coordinate" (named places near a location)'),
+  name: z
+    .string()
+    .optional()
+    .describe('Swedish place name, e.g. "Storsjön", "Kebnekaise", "Gamla Uppsala". Use with queryType="name"'),
+  kommun: z.string().optional().describe('Limit name search to a municipality, e.g. "Östersund". Use with queryType="name"'),
+  featureType: z
+    .string()
+    .optional()
+    .describe('Limit name search to a feature type, e.g. "Sjö", "Tätort", "Berg". Use with queryType="name"'),
+  latitude: z
+    .number()
+    .optional()
+    .describe('Latitude (WGS84) or northing (projected inputCrs). Stockholm ~59.33. Use with queryType="coordinate"'),
+  longitude: z
+    .number()
+    .optional()
+    .describe('Longitude (WGS84) or easting (projected inputCrs). Stockholm ~18.07. Use with queryType="coordinate"'),
+  radius: z
+    .number()
+    .optional()
+    .default(1000)
+    .describe('Search radius in meters for queryType="coordinate" (default: 1000, max: 10000)'),
+  maxResults: z.number().optional().default(10).describe('Maximum results to return (default: 10)'),
+  ...crsInputSchema,
+};
+
+export const placeSearchTool = {
+  name: 'lm_place_search',
+  description:
+    'Look up Swedish place names (Ortnamn): lakes, villages, mountains, islands, etc. ' +
+    'Name search returns candidate places with coordinates, feature type, municipality and county for disambiguation. ' +
+    'Coordinate search returns the nearest named places to a point, sorted by distance. ' +
+    'Coordinates in WGS84 by default (see inputCrs/outputCrs). Requires Lantmäteriet API credentials for authenticated access.',
+  inputSchema: placeSearchInputSchema,
+};
+
+type PlaceSearchInput = {
+  queryType: QueryType;
+  name?: string;
+  kommun?: string;
+  featureType?: string;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  maxResults?: number;
+} & CrsInput;
+
+function toOutputPlace(place: PlaceNameResult, outputCrs: SupportedCrs) {
+  return {
+    name: place.namn,
+    feature_type: place.objekttyp,
+    kommun: place.kommun,
+    lan: place.lan,
+    ...fromSweref99(place.coordinate, outputCrs),
+    distance_meters: place.distance,
+  };
+}
+
+export const placeSearchHandler = withErrorHandling(async (args: PlaceSearchInput) => {
+  const { queryType } = args;
+  const maxResults = args.maxResults || 10;
+  const outputCrs = args.outputCrs || CRS_WGS84;
+
+  switch (queryType) {
+    case 'name': {
+      if (!args.name) {
+        throw new ValidationError('Name is required for name query', 'name');
+      }
+
+      const places = await lantmaterietClient.searchPlaceNames(args.name, {
+        kommun: args.kommun,
+        objekttyp: args.featureType,
+        maxResults,
+      });
+
+      return {
+        query_type: 'name',
+        search_name: args.name,
+        coordinate_system: outputCrs,
+        resultCount: places.length,
+        places: places.map((p) => toOutputPlace(p, outputCrs)),
+        note:
+          places.length === 0
+            ? 'No place found with this name. Check the spelling (å, ä, ö) or remove the kommun/featureType filters.'
+            : places.length > 1
+              ? 'Several places match. Use kommun, lan and feature_type to pick the right one.'
+              : undefined,
+      };
+    }
+
+    case 'coordinate': {
+      if (args.latitude === undefined || args.longitude === undefined) {
+        throw new ValidationError('For coordinate query, provide latitude and longitude', 'coordinates');
+      }
+
+      const radius = args.radius || 1000;
+      if (radius <= 0 || radius > MAX_RADIUS_METERS) {
+        throw new ValidationError(`Radius must be between 1 and ${MAX_RADIUS_METERS} meters`, 'radius');
+      }
+
+      const sweref99Point = toSweref99(args.latitude, args.longitude, args.inputCrs);
+      const places = await lantmaterietClient.findNearbyPlaceNames(sweref99Point, radius, maxResults);
+
+      return {
+        query_type: 'coordinate',
+        coordinate_system: outputCrs,
+        search_coordinate: fromSweref99(sweref99Point, outputCrs),
+        radius_meters: radius,
+        resultCount: places.length,
+        places: places.map((p) => toOutputPlace(p, outputCrs)),
+        note: places.length === 0 ? 'No named places within the radius. Try a larger radius.' : undefined,
+      };
+    }
+
+    default:
+      throw new ValidationError(`Unknown query type: ${queryType}`, 'queryType');
+  }
+});
@@ -0,0 +1,329 @@
+import { z } from 'zod';
+import { lantmaterietClient } from '@/clients/lantmateriet-client';
+import { round, withErrorHandling } from '@/lib/response';
+import {
+  toSweref99,
+  fromSweref99,
+  sweref99GeometryToCrs,
+  sweref99BboxToCrs,
+  CRS_WGS84,
+  type BoundingBox,
+  type SupportedCrs,
+} from '@/lib/coordinates';
+import {
+  bboxPolygon,
+  closestPoints,
+  geometryArea,
+  geometryBbox,
+  geometryPerimeter,
+  interiorPoint,
+  simplifyGeometry,
+} from '@/lib/geometry';
+import { withCountyFromKommun } from '@/lib/admin-units';
+import { landCoverBreakdown, summarizeLandCover } from '@/lib/land-cover';
+import { chooseResolution, createGrid } from '@/lib/raster';
+import { createMask, elevationStatistics } from '@/lib/terrain';
+import { parseSortBy } from '@/lib/stac';
+import { LANTMATERIET_ATTRIBUTION } from '@/lib/map-render';
+import { proxyPropertyMapUrl, proxyTileUrlTemplate } from '@/lib/tile-proxy';
+import { McpToolError, NotFoundError, ValidationError } from '@/lib/errors';
+import type { MapUrlResult, PropertyInfo, StacSearchResultItem } from '@/types/lantmateriet';
+import { crsInputSchema, type CrsInput } from './crs-params';
+
+const QUERY_TYPES = ['designation', 'address', 'coordinate'] as const;
+type QueryType = (typeof QUERY_TYPES)[number];
+
+// Grids for elevation and land cover are kept to this size whatever the parcel size
+const MAX_GRID_CELLS = 250_000;
+const WATER_SEARCH_RADIUS_METERS = 1000;
+const STRANDSKYDD_METERS = 100;
+const IMAGERY_PER_COLLECTION = 3;
+// Overview maps show the parcel with some surroundings
+const MAP_MARGIN = 0.25;
+const MIN_MAP_SIDE_METERS = 200;
+const PROPERTY_MAP_PIXELS = 1024;
+
+export const propertyReportInputSchema = {
+  queryType: z
+    .enum(QUERY_TYPES)
+    .describe(
+      'How to find the property: "designation" (e.g. "STOCKHOLM VASASTADEN 1:1"), "address" (street address) or "coordinate" (a point on the parcel)',
+    ),
+  designation: z.string().optional().describe('Property designation. Use with queryType="designation"'),
+  address: z.string().optional().describe('Street address, e.g. "Drottninggatan 1, Stockholm". Use with queryType="address"'),
+  latitude: z
+    .number()
+    .optional()
+    .describe('Latitude (WGS84) or northing (projected inputCrs). Use with queryType="coordinate"'),
+  longitude: z
+    .number()
+    .optional()
+    .describe('Longitude (WGS84) or easting (projected inputCrs). Use with queryType="coordinate"'),
+  includeGeometry: z.boolean().optional().default(true).describe('Include the property boundary as GeoJSON (default: true)'),
+  simplifyTolerance: z
+    .number()
+    .optional()
+    .describe('Simplify the returned boundary, tolerance in meters. Measurements always use the full boundary'),
+  ...crsInputSchema,
+};
+
+export const propertyReportTool = {
+  name: 'lm_property_report',
+  description:
+    'One-call report on a Swedish property, found by designation, address or coordinate. ' +
+    'Combines boundary geometry, area and perimeter, administrative codes (kommunkod, länskod, församling), ' +
+    'buildings on the parcel, elevation range and slope, land-cover breakdown, nearest water and strandskydd, ' +
+    'recent orthophoto and elevation imagery, and ready-to-use map URLs. ' +
+    'Sections that fail are reported under "errors" while the rest of the report is still returned. ' +
+    'Requires Lantmäteriet API credentials for authenticated access.',
+  inputSchema: propertyReportInputSchema,
+};
+
+type PropertyReportInput = {
+  queryType: QueryType;
+  designation?: string;
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+  includeGeometry?: boolean;
+  simplifyTolerance?: number;
+} & CrsInput;
+
+type SectionError = { section: string; code: string; message: string };
+
+// A failing section is recorded and yields null so the rest of the report still comes back
+async function section<T>(name: string, errors: SectionError[], run: () => Promise<T>): Promise<T | null> {
+  try {
+    return await run();
+  } catch (error) {
+    errors.push({
+      section: name,
+      code: error instanceof McpToolError ? error.code : 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+async function resolveProperty(args: PropertyReportInput): Promise<{ property: PropertyInfo; matchedAddress?: string }> {
+  switch (args.queryType) {
+    case 'designation': {
+      if (!args.designation) {
+        throw new ValidationError('designation is required for designation query', 'designation');
+      }
+      const property = await lantmaterietClient.findPropertyByDesignation(args.designation);
+      if (!property) throw new NotFoundError('Property', args.designation);
+      return { property };
+    }
+
+    case 'address': {
+      if (!args.address) {
+        throw new ValidationError('address is required for address query', 'address');
+      }
+      const found = await lantmaterietClient.findPropertyByAddress(args.address);
+      if (found.properties.length === 0) throw new NotFoundError('Property at address', args.address);
+      const matched = found.matchedAddress;
+      return {
+        property: found.properties[0],
+        matchedAddress: matched ? `${matched.adress}, ${matched.postnummer} ${matched.postort}`.trim() : undefined,
+      };
+    }
+
+    case 'coordinate': {
+      if (args.latitude === undefined || args.longitude === undefined) {
+        throw new ValidationError('For coordinate query, provide latitude and longitude', 'coordinates');
+      }
+      const point = toSweref99(args.latitude, args.longitude, args.inputCrs);
+      const found = await lantmaterietClient.findPropertyByPoint(point);
+      if (found.properties.length === 0) {
+        throw new NotFoundError('Property at coordinate', `${args.latitude}, ${args.longitude}`);
+      }
+      return { property: found.properties[0] };
+    }
+
+    default:
+      throw new ValidationError(`Unknown query type: ${args.queryType}`, 'queryType');
+  }
+}
+
+function toImagery(items: StacSearchResultItem[]) {
+  return [...items]
+    .sort((a, b) => (b.datetime || '').localeCompare(a.datetime || ''))
+    .slice(0, IMAGERY_PER_COLLECTION)
+    .map((item) => ({
+      id: item.id,
+      datetime: item.datetime,
+      resolution_meters: item.resolution,
+      download_url: item.downloadUrl,
+      thumbnail_url: item.thumbnailUrl,
+    }));
+}
+
+function buildMaps(bbox: BoundingBox, outputCrs: SupportedCrs) {
+  const width = Math.max(MIN_MAP_SIDE_METERS, (bbox.maxX - bbox.minX) * (1 + MAP_MARGIN * 2));
+  const height = Math.max(MIN_MAP_SIDE_METERS, (bbox.maxY - bbox.minY) * (1 + MAP_MARGIN * 2));
+  const center = { x: (bbox.minX + bbox.maxX) / 2, y: (bbox.minY + bbox.maxY) / 2 };
+  const extent = {
+    minX: center.x - width / 2,
+    minY: center.y - height / 2,
+    maxX: center.x + width / 2,
+    maxY: center.y + height / 2,
+  };
+
+  const wmts = (mapType: string, result: MapUrlResult) => ({
+    map_type: mapType,
+    url: result.url,
+    zoom: result.zoom,
+    tile_count: result.tiles?.length,
+    proxy_url_template: proxyTileUrlTemplate(result.layers[0]),
+  });
+
+  // Property WMS images keep the extent's aspect ratio
+  const pixelWidth = width >= height ? PROPERTY_MAP_PIXELS : Math.round((PROPERTY_MAP_PIXELS * width) / height);
+  const pixelHeight = height >= width ? PROPERTY_MAP_PIXELS : Math.round((PROPERTY_MAP_PIXELS * height) / width);
+  const property = lantmaterietClient.getPropertyMapUrl(extent, { width: pixelWidth, height: pixelHeight });
+
+  return {
+    bbox: sweref99BboxToCrs(extent, outputCrs),
+    topographic: wmts('topographic', lantmaterietClient.getTopographicMapUrl(center, { width, height })),
+    orthophoto: wmts('orthophoto', lantmaterietClient.getOrthophotoMapUrl(center, { width, height })),
+    property: {
+      map_type: 'property',
+      url: property.url,
+      image_size: { width: pixelWidth, height: pixelHeight },
+      proxy_url: proxyPropertyMapUrl(extent, pixelWidth, pixelHeight),
+    },
+    attribution: LANTMATERIET_ATTRIBUTION,
+    note: 'Use lm_map_url with render=true and propertyBoundaries=true for a rendered image.',
+  };
+}
+
+export const propertyReportHandler = withErrorHandling(async (args: PropertyReportInput) => {
+  const outputCrs = args.outputCrs || CRS_WGS84;
+  const { property, matchedAddress } = await resolveProperty(args);
+  if (!property.geometry) {
+    throw new ValidationError(`Property ${property.beteckning} has no boundary geometry to report on`, 'property');
+  }
+
+  const geometry = property.geometry;
+  const bbox = geometryBbox(geometry);
+  const area = geometryArea(geometry);
+  const [x, y] = interiorPoint(geometry);
+  const errors: SectionError[] = [];
+
+  const [administrative, buildings, elevation, landCover, water, imagery, maps] = await Promise.all([
+    section('administrative', errors, async () => {
+      const units = withCountyFromKommun(await lantmaterietClient.findAdministrativeUnits({ x, y }));
+      return {
+        kommun: units.kommun ? { namn: units.kommun.namn, kommunkod: units.kommun.kod } : null,
+        lan: units.lan ? { namn: units.lan.namn, lanskod: units.lan.kod } : null,
+        forsamling: units.forsamling ? { namn: units.forsamling.namn, forsamlingskod: units.forsamling.kod } : null,
+      };
+    }),
+
+    section('buildings', errors, async () => {
+      const result = await lantmaterietClient.findBuildings({ objektidentitet: property.objektidentitet });
+      const list = result.buildings.map((b) => ({
+        objektidentitet: b.objektidentitet,
+        objekttyp: b.objekttyp,
+        andamal: b.andamal,
+        husnummer: b.husnummer,
+        footprint_square_meters: b.area ?? (b.geometry ? Math.round(geometryArea(b.geometry)) : undefined),
+      }));
+      return {
+        count: list.length,
+        total_footprint_square_meters: list.reduce((sum, b) => sum + (b.footprint_square_meters ?? 0), 0),
+        buildings: list,
+      };
+    }),
+
+    section('elevation', errors, async () => {
+      const resolution = chooseResolution(bbox, 1, MAX_GRID_CELLS);
+      const grid = await lantmaterietClient.readStacRaster(bbox, 'hojd', resolution);
+      const stats = elevationStatistics(grid, createMask(grid, geometry), 1);
+      if (!stats) throw new NotFoundError('Elevation data', 'the property');
+      return {
+        reference_system: 'RH 2000',
+        grid_resolution_meters: resolution,
+        min_elevation_meters: round(stats.min, 2),
+        max_elevation_meters: round(stats.max, 2),
+        mean_elevation_meters: round(stats.mean, 2),
+        mean_slope_degrees: round(stats.meanSlopeDegrees),
+        dominant_aspect: stats.dominantAspect,
+        coverage_note: grid.coverageNote,
+      };
+    }),
+
+    section('land_cover', errors, async () => {
+      const resolution = chooseResolution(bbox, 1, MAX_GRID_CELLS);
+      const grid = createGrid(bbox, resolution, 0);
+      const features = await lantmaterietClient.findLandCover({ bbox });
+      const breakdown = landCoverBreakdown(grid, createMask(grid, geometry), features);
+      if (features.length === 0 || breakdown.cellCount === 0) throw new NotFoundError('Land-cover data', 'the property');
+      return { grid_resolution_meters: resolution, ...summarizeLandCover(breakdown, area) };
+    }),
+
+    section('nearest_water', errors, async () => {
+      const features = await lantmaterietClient.findWaterFeatures(bboxPolygon(bbox), WATER_SEARCH_RADIUS_METERS);
+      const nearest = features
+        .map((water) => ({ water, distance: closestPoints(geometry, water.geometry).distance }))
+        .sort((a, b) => a.distance - b.distance)[0];
+      if (!nearest || nearest.distance > WATER_SEARCH_RADIUS_METERS) {
+        return { found: false, search_radius_meters: WATER_SEARCH_RADIUS_METERS, within_general_strandskydd_zone: false };
+      }
+      return {
+        found: true,
+        namn: nearest.water.namn ?? null,
+        objekttyp: nearest.water.objekttyp,
+        distance_meters: round(nearest.distance),
+        within_general_strandskydd_zone: nearest.distance <= STRANDSKYDD_METERS,
+      };
+    }),
+
+    section('imagery', errors, async () => {
+      // The catalog sorts newest first, so the newest items are the ones returned
+      const newest = (collection: 'ortofoto' | 'hojd') =>
+        lantmaterietClient.searchStacPage({
+          bbox,
+          collection,
+          limit: IMAGERY_PER_COLLECTION,
+          sortby: parseSortBy(['-datetime']),
+        });
+      const [orthophoto, elevationModels] = await Promise.all([newest('ortofoto'), newest('hojd')]);
+      return { orthophoto: toImagery(orthophoto.items), elevation_models: toImagery(elevationModels.items) };
+    }),
+
+    section('maps', errors, async () => buildMaps(bbox, outputCrs)),
+  ]);
+
+  const outputGeometry = args.simplifyTolerance ? simplifyGeometry(geometry, args.simplifyTolerance) : geometry;
+
+  return {
+    query_type: args.queryType,
+    coordinate_system: outputCrs,
+    matched_address: matchedAddress,
+    property: {
+      objektidentitet: property.objektidentitet,
+      beteckning: property.beteckning,
+      kommun: property.kommun || administrative?.kommun?.namn || '',
+      lan: property.lan || administrative?.lan?.namn || '',
+      area_square_meters: property.area ?? Math.round(area),
+      perimeter_meters: round(geometryPerimeter(geometry)),
+      interior_point: fromSweref99({ x, y }, outputCrs),
+      bbox: sweref99BboxToCrs(bbox, outputCrs),
+      geometry: args.includeGeometry === false ? undefined : sweref99GeometryToCrs(outputGeometry, outputCrs),
+    },
+    administrative,
+    buildings,
+    elevation,
+    land_cover: landCover,
+    nearest_water: water,
+    imagery,
+    maps,
+    errors: errors.length > 0 ? errors : undefined,
+    note:
+      errors.length > 0
+        ? `Partial report: ${errors.map((e) => e.section).join(', ')} could not be retrieved (see errors).`
+        : undefined,
+  };
+});
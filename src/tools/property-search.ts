@@ -1,20 +1,76 @@
 import { z } from 'zod';
 import { lantmaterietClient } from '@/clients/lantmateriet-client';
 import { withErrorHandling } from '@/lib/response';
-import { wgs84ToSweref99, CRS_WGS84 } from '@/lib/coordinates';
-import { ValidationError } from '@/lib/errors';
+import {
+  toSweref99,
+  toSweref99Bbox,
+  toSweref99Polygon,
+  fromSweref99,
+  sweref99GeometryToCrs,
+  toSweref99Line,
+  validateBbox,
+  CRS_WGS84,
+  type BoundingBox,
+} from '@/lib/coordinates';
+import {
+  bboxPolygon,
+  closestPoints,
+  distanceToLine,
+  geometryArea,
+  geometryBbox,
+  geometryPerimeter,
+  lineLength,
+  pointInGeometry,
+  sharedBoundaryLength,
+  simplifyGeometry,
+  type Position,
+  type Ring,
+} from '@/lib/geometry';
+import { intersectionArea } from '@/lib/raster';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { designationInterpretations, parseDesignation, rankDesignations } from '@/lib/designation';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import type { GeoJsonGeometry, PropertyInfo } from '@/types/lantmateriet';
+import { crsInputSchema, type CrsInput } from './crs-params';
 
-const QUERY_TYPES = ['coordinate', 'address', 'designation'] as const;
+const QUERY_TYPES = ['coordinate', 'address', 'designation', 'objektidentitet', 'adjacent', 'area'] as const;
 type QueryType = (typeof QUERY_TYPES)[number];
 
+const OBJEKTIDENTITET_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Neighbouring boundaries are surveyed separately, so shared edges rarely coincide to the millimetre
+const ADJACENCY_TOLERANCE_METERS = 0.5;
+
+// Area queries: project-scale searches, paged so large results stay a manageable size
+const MAX_SEARCH_AREA_SQUARE_METERS = 25_000_000;
+const MAX_CORRIDOR_LENGTH_METERS = 50_000;
+const MAX_CORRIDOR_BUFFER_METERS = 500;
+const MAX_PAGE_SIZE = 200;
+// Query geometries go in the upstream URL, so long routes are sent in pieces of this many vertices
+const MAX_QUERY_VERTICES = 50;
+const QUERY_CONCURRENCY = 3;
+
+// Designation candidates per search, and how close two scores must be for the match to count as ambiguous
+const MAX_DESIGNATION_CANDIDATES = 10;
+const AMBIGUITY_MARGIN = 0.05;
+const CONFIDENT_SCORE = 0.8;
+
 export const propertySearchInputSchema = {
   queryType: z
     .enum(QUERY_TYPES)
     .describe(
-      'Search method: "coordinate" (find by location), "address" (find by street address), "designation" (find by property name like "STOCKHOLM VASASTADEN 1:1")',
+      'Search method: "coordinate" (find by location), "address" (find by street address), "designation" (find by property name like "STOCKHOLM VASASTADEN 1:1", ranked candidates for partial input), ' +
+        '"objektidentitet" (find by the UUID from an earlier result), "adjacent" (parcels sharing a boundary with a property), ' +
+        '"area" (all parcels intersecting a bbox, polygon or buffered path)',
     ),
-  latitude: z.number().optional().describe('Latitude (WGS84). Stockholm ~59.33. Use with queryType="coordinate"'),
-  longitude: z.number().optional().describe('Longitude (WGS84). Stockholm ~18.07. Use with queryType="coordinate"'),
+  latitude: z
+    .number()
+    .optional()
+    .describe('Latitude (WGS84) or northing (projected inputCrs). Stockholm ~59.33. Use with queryType="coordinate"'),
+  longitude: z
+    .number()
+    .optional()
+    .describe('Longitude (WGS84) or easting (projected inputCrs). Stockholm ~18.07. Use with queryType="coordinate"'),
   address: z
     .string()
     .optional()
@@ -22,15 +78,61 @@ export const propertySearchInputSchema = {
   designation: z
     .string()
     .optional()
-    .describe('Property designation, e.g. "STOCKHOLM VASASTADEN 1:1". Use with queryType="designation"'),
+    .describe(
+      'Property designation, e.g. "STOCKHOLM VASASTADEN 1:1". Use with queryType="designation" or "adjacent". ' +
+        'The designation search also accepts kommun abbreviations ("sthlm", "gbg"), a trailing or missing kommun ' +
+        '("vasastaden 1:1 sthlm") and "1 1" for "1:1"',
+    ),
+  objektidentitet: z
+    .string()
+    .optional()
+    .describe('Property UUID from an earlier result. Use with queryType="objektidentitet" or "adjacent"'),
+  minLat: z.number().optional().describe('Bbox minimum latitude (WGS84) or northing. Use with queryType="area"'),
+  minLon: z.number().optional().describe('Bbox minimum longitude (WGS84) or easting. Use with queryType="area"'),
+  maxLat: z.number().optional().describe('Bbox maximum latitude (WGS84) or northing. Use with queryType="area"'),
+  maxLon: z.number().optional().describe('Bbox maximum longitude (WGS84) or easting. Use with queryType="area"'),
+  polygon: z
+    .array(z.array(z.number()).length(2))
+    .optional()
+    .describe('Area outline as [latitude, longitude] (or [northing, easting]) pairs. Use with queryType="area"'),
+  path: z
+    .array(z.array(z.number()).length(2))
+    .optional()
+    .describe(
+      'Route as [latitude, longitude] (or [northing, easting]) pairs, e.g. a planned cable. Buffered by "buffer". Use with queryType="area"',
+    ),
+  buffer: z
+    .number()
+    .optional()
+    .default(20)
+    .describe(`Corridor half-width in meters on each side of path (default: 20, max: ${MAX_CORRIDOR_BUFFER_METERS})`),
+  page: z.number().optional().default(1).describe('Page number for queryType="area", starting at 1'),
+  pageSize: z
+    .number()
+    .optional()
+    .default(50)
+    .describe(`Properties per page for queryType="area" (default: 50, max: ${MAX_PAGE_SIZE})`),
+  includeGeometry: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Include the property boundary as GeoJSON (default: true). Area and perimeter are always returned'),
+  simplifyTolerance: z
+    .number()
+    .optional()
+    .describe('Simplify the boundary geometry, tolerance in meters (e.g. 1). Reduces vertex count for large parcels'),
+  ...crsInputSchema,
 };
 
 export const propertySearchTool = {
   name: 'lm_property_search',
   description:
-    'Find Swedish properties by coordinate, address, or official designation. ' +
-    'Returns property boundaries as WGS84 geometry, designation, municipality, and county. ' +
-    'For coordinate queries, use WGS84 (latitude/longitude). ' +
+    'Find Swedish properties by coordinate, address, official designation or objektidentitet (UUID), ' +
+    'or list the neighbouring parcels of a property with the length of boundary they share. ' +
+    'queryType="area" returns every parcel intersecting a bbox, polygon or buffered route (e.g. 20 m each side of a cable), ' +
+    'with the intersecting area per parcel, in pages. ' +
+    'Returns property boundaries as geometry, area (m²), perimeter (m), designation, municipality, and county. ' +
+    'Coordinates in WGS84 (latitude/longitude) by default; SWEREF99 TM, regional SWEREF99 zones and RT90 via inputCrs/outputCrs. ' +
     'Requires Lantmäteriet API credentials for authenticated access.',
   inputSchema: propertySearchInputSchema,
 };
@@ -41,28 +143,313 @@ type PropertySearchInput = {
   longitude?: number;
   address?: string;
   designation?: string;
+  objektidentitet?: string;
+  minLat?: number;
+  minLon?: number;
+  maxLat?: number;
+  maxLon?: number;
+  polygon?: number[][];
+  path?: number[][];
+  buffer?: number;
+  page?: number;
+  pageSize?: number;
+  includeGeometry?: boolean;
+  simplifyTolerance?: number;
+} & CrsInput;
+
+type SearchArea = {
+  source: 'bbox' | 'polygon' | 'corridor';
+  queries: GeoJsonGeometry[]; // Sent upstream, each grown by buffer meters
+  buffer?: number;
+  area: number;
+  // Drops the candidates that only match the looser upstream query
+  intersects: (parcel: GeoJsonGeometry) => boolean;
+  // Membership test for cell centers, narrowed to the surroundings of one parcel
+  containsNear: (parcel: BoundingBox) => (position: Position) => boolean;
 };
 
+type GeometryOptions = Pick<PropertySearchInput, 'includeGeometry' | 'simplifyTolerance' | 'outputCrs'>;
+
+// Area and perimeter are measured on the full-resolution SWEREF99 TM boundary before simplification
+function toOutputProperty(property: PropertyInfo, options: GeometryOptions): PropertyInfo {
+  if (!property.geometry) return property;
+
+  const { includeGeometry = true, simplifyTolerance, outputCrs } = options;
+  const geometry = simplifyTolerance ? simplifyGeometry(property.geometry, simplifyTolerance) : property.geometry;
+
+  return {
+    ...property,
+    area: property.area ?? Math.round(geometryArea(property.geometry)),
+    perimeter: Math.round(geometryPerimeter(property.geometry) * 10) / 10,
+    geometry: includeGeometry ? sweref99GeometryToCrs(geometry, outputCrs) : undefined,
+  };
+}
+
+function requireObjektidentitet(objektidentitet: string | undefined): string {
+  if (!objektidentitet) {
+    throw new ValidationError('objektidentitet is required for this query', 'objektidentitet');
+  }
+  const trimmed = objektidentitet.trim();
+  if (!OBJEKTIDENTITET_PATTERN.test(trimmed)) {
+    throw new ValidationError(
+      'objektidentitet must be a UUID such as "909a6a85-8f4a-90ec-e040-ed8f66444c3f", as returned by a property search',
+      'objektidentitet',
+    );
+  }
+  return trimmed;
+}
+
+// Searches every reading of a loosely written designation and ranks the parcels found against the input
+async function getPropertiesByDesignation(args: PropertySearchInput) {
+  const outputCrs = args.outputCrs || CRS_WGS84;
+  const parsed = parseDesignation(args.designation!);
+  const interpretations = designationInterpretations(parsed);
+
+  const queries = [...new Set(interpretations.map((i) => i.query))];
+  const results = await Promise.all(
+    queries.map((q) => lantmaterietClient.searchPropertiesByDesignation(q, MAX_DESIGNATION_CANDIDATES)),
+  );
+  const unique = new Map<string, PropertyInfo>();
+  for (const property of results.flat()) {
+    unique.set(property.objektidentitet || property.beteckning, property);
+  }
+
+  const ranked = rankDesignations(parsed, [...unique.values()], (p) => ({
+    beteckning: p.beteckning,
+    kommun: p.kommun,
+  })).slice(0, MAX_DESIGNATION_CANDIDATES);
+  const best = ranked[0];
+  const tied = ranked.filter((r) => best.score - r.score <= AMBIGUITY_MARGIN);
+  const ambiguous = tied.length > 1 || (best !== undefined && best.score < CONFIDENT_SCORE);
+
+  let explanation: string | undefined;
+  if (!best) {
+    explanation =
+      `No property found for "${parsed.normalized}". Check the spelling of the trakt name, ` +
+      'or write the designation as "KOMMUN TRAKT BLOCK:ENHET", e.g. "STOCKHOLM VASASTADEN 1:1".';
+  } else if (tied.length > 1) {
+    explanation =
+      `${tied.length} properties match equally well: ${tied.map((r) => r.item.beteckning).join(', ')}. ` +
+      'Add the kommun to the designation to pick one.';
+  } else if (best.score < CONFIDENT_SCORE) {
+    explanation = `No exact match; the closest is ${best.item.beteckning} (${best.reasons.join(', ')}).`;
+  }
+
+  return {
+    query_type: 'designation',
+    search_designation: args.designation,
+    normalized_designation: parsed.normalized,
+    interpretations: interpretations.map(({ kommun, trakt }) => ({ kommun: kommun ?? null, trakt })),
+    coordinate_system: outputCrs,
+    found: best !== undefined,
+    ambiguous,
+    // The best candidate keeps its geometry as before; the full list is returned without
+    property: best ? toOutputProperty(best.item, args) : null,
+    candidates: ranked.map((r) => ({
+      ...toOutputProperty(r.item, { ...args, includeGeometry: false }),
+      score: r.score,
+      reasons: r.reasons,
+    })),
+    explanation,
+  };
+}
+
+// The property whose neighbours are listed, given by objektidentitet or designation
+async function resolveSubjectProperty(args: PropertySearchInput): Promise<PropertyInfo> {
+  if (args.objektidentitet) {
+    const objektidentitet = requireObjektidentitet(args.objektidentitet);
+    const property = await lantmaterietClient.findPropertyById(objektidentitet);
+    if (!property) throw new NotFoundError('Property', objektidentitet);
+    return property;
+  }
+  if (args.designation) {
+    const property = await lantmaterietClient.findPropertyByDesignation(args.designation);
+    if (!property) throw new NotFoundError('Property', args.designation);
+    return property;
+  }
+  throw new ValidationError('For adjacent query, provide objektidentitet or designation', 'objektidentitet');
+}
+
+function buildCorridor(args: PropertySearchInput): SearchArea {
+  const path = args.path!;
+  if (path.length < 2) {
+    throw new ValidationError('path needs at least two coordinate pairs', 'path');
+  }
+  const buffer = args.buffer ?? 20;
+  if (buffer <= 0 || buffer > MAX_CORRIDOR_BUFFER_METERS) {
+    throw new ValidationError(`buffer must be between 0 and ${MAX_CORRIDOR_BUFFER_METERS} meters`, 'buffer');
+  }
+
+  const line: Ring = toSweref99Line(path, args.inputCrs);
+  const length = lineLength(line);
+  if (length > MAX_CORRIDOR_LENGTH_METERS) {
+    throw new ValidationError(
+      `path is ${Math.round(length / 1000)} km long, the maximum is ${MAX_CORRIDOR_LENGTH_METERS / 1000} km — split the route`,
+      'path',
+    );
+  }
+
+  // Consecutive pieces share their end points, so the buffered pieces cover the whole corridor
+  const queries: GeoJsonGeometry[] = [];
+  for (let start = 0; start < line.length - 1; start += MAX_QUERY_VERTICES - 1) {
+    queries.push({ type: 'LineString', coordinates: line.slice(start, start + MAX_QUERY_VERTICES) });
+  }
+
+  return {
+    source: 'corridor',
+    queries,
+    buffer,
+    area: length * buffer * 2 + Math.PI * buffer * buffer,
+    intersects: () => true,
+    containsNear: (parcel) => {
+      // Only segments within buffer of the parcel can contain its cells
+      const segments = line
+        .slice(1)
+        .map((end, i) => [line[i], end])
+        .filter(
+          ([a, b]) =>
+            Math.min(a[0], b[0]) - buffer <= parcel.maxX &&
+            Math.max(a[0], b[0]) + buffer >= parcel.minX &&
+            Math.min(a[1], b[1]) - buffer <= parcel.maxY &&
+            Math.max(a[1], b[1]) + buffer >= parcel.minY,
+        );
+      return (position) => segments.some((segment) => distanceToLine(position, segment) <= buffer);
+    },
+  };
+}
+
+function buildSearchArea(args: PropertySearchInput): SearchArea {
+  if (args.path && args.path.length > 0) {
+    return buildCorridor(args);
+  }
+
+  if (args.polygon && args.polygon.length > 0) {
+    const geometry = toSweref99Polygon(args.polygon, args.inputCrs);
+    // Upstream is queried with the polygon's bbox so long outlines don't overflow the URL
+    return {
+      source: 'polygon',
+      queries: [bboxPolygon(geometryBbox(geometry))],
+      area: geometryArea(geometry),
+      intersects: (parcel) => closestPoints(geometry, parcel).distance === 0,
+      containsNear: () => (position) => pointInGeometry(position, geometry),
+    };
+  }
+
+  if (args.minLat !== undefined && args.minLon !== undefined && args.maxLat !== undefined && args.maxLon !== undefined) {
+    const bbox = toSweref99Bbox(
+      { minLat: args.minLat, minLon: args.minLon, maxLat: args.maxLat, maxLon: args.maxLon },
+      args.inputCrs,
+    );
+    validateBbox(bbox);
+    return {
+      source: 'bbox',
+      queries: [bboxPolygon(bbox)],
+      area: (bbox.maxX - bbox.minX) * (bbox.maxY - bbox.minY),
+      intersects: () => true,
+      containsNear: () => (position) =>
+        position[0] >= bbox.minX && position[0] <= bbox.maxX && position[1] >= bbox.minY && position[1] <= bbox.maxY,
+    };
+  }
+
+  throw new ValidationError(
+    'For area query, provide a bounding box (minLat/minLon/maxLat/maxLon), a polygon, or a path with buffer',
+    'area',
+  );
+}
+
+// Every parcel in the search area, merged across its upstream queries. complete is false when any query had more
+// matches than it could read
+async function findParcels(searchArea: SearchArea): Promise<{ properties: PropertyInfo[]; complete: boolean }> {
+  const results = await mapWithConcurrency(searchArea.queries, QUERY_CONCURRENCY, (query) =>
+    lantmaterietClient.findPropertiesByGeometry(query, { buffer: searchArea.buffer }),
+  );
+  const unique = new Map<string, PropertyInfo>();
+  for (const property of results.flatMap((r) => r.properties)) {
+    unique.set(property.objektidentitet || property.beteckning, property);
+  }
+  return {
+    properties: [...unique.values()].filter((p) => !p.geometry || searchArea.intersects(p.geometry)),
+    complete: results.every((r) => r.complete),
+  };
+}
+
+async function getPropertiesInArea(args: PropertySearchInput) {
+  const outputCrs = args.outputCrs || CRS_WGS84;
+  const searchArea = buildSearchArea(args);
+  if (searchArea.area > MAX_SEARCH_AREA_SQUARE_METERS) {
+    throw new ValidationError(
+      `Search area is ${Math.round(searchArea.area / 1e5) / 10} km², the maximum is ${MAX_SEARCH_AREA_SQUARE_METERS / 1e6} km² — split it into smaller areas`,
+      'area',
+    );
+  }
+
+  const pageSize = Math.max(1, Math.min(MAX_PAGE_SIZE, Math.round(args.pageSize || 50)));
+  const page = Math.max(1, Math.round(args.page || 1));
+
+  const found = await findParcels(searchArea);
+  // A stable order keeps pages consistent between calls
+  const sorted = [...found.properties].sort((a, b) => a.beteckning.localeCompare(b.beteckning, 'sv', { numeric: true }));
+  const pageCount = Math.max(1, Math.ceil(sorted.length / pageSize));
+  const pageItems = sorted.slice((page - 1) * pageSize, page * pageSize);
+
+  // Intersections are only measured for the requested page
+  const properties = pageItems.map((property) => {
+    const output = toOutputProperty(property, args);
+    if (!property.geometry) return output;
+    const intersection = intersectionArea(property.geometry, searchArea.containsNear(geometryBbox(property.geometry)));
+    const parcelArea = geometryArea(property.geometry);
+    return {
+      ...output,
+      intersection_area_square_meters: Math.round(intersection),
+      intersection_percent: parcelArea > 0 ? Math.round((intersection / parcelArea) * 1000) / 10 : 0,
+    };
+  });
+
+  return {
+    query_type: 'area',
+    area_source: searchArea.source,
+    coordinate_system: outputCrs,
+    search_area_square_meters: Math.round(searchArea.area),
+    corridor_buffer_meters: searchArea.buffer,
+    // Unknown (null) when the area has more parcels than one search reads
+    totalCount: found.complete ? sorted.length : null,
+    complete: found.complete,
+    page,
+    pageSize,
+    pageCount,
+    properties,
+    note: !found.complete
+      ? `At least ${sorted.length} properties match, but the area holds more than one search can read, so some are ` +
+        'missing and the total is unknown. Split the area into smaller parts to list them all.'
+      : sorted.length === 0
+        ? 'No properties found in this area. Check that it is within Sweden.'
+        : page < pageCount
+          ? `Page ${page} of ${pageCount}. Request page=${page + 1} for the next ${pageSize} properties.`
+          : page > pageCount
+            ? `Page ${page} is past the last page (${pageCount}).`
+            : 'Intersection areas are estimated on a fine grid per parcel (sub-metre for small parcels).',
+  };
+}
+
 export const propertySearchHandler = withErrorHandling(async (args: PropertySearchInput) => {
   const { queryType } = args;
+  const outputCrs = args.outputCrs || CRS_WGS84;
 
   switch (queryType) {
     case 'coordinate': {
       if (args.latitude === undefined || args.longitude === undefined) {
-        throw new ValidationError('For coordinate query, provide latitude and longitude (WGS84)', 'coordinates');
+        throw new ValidationError('For coordinate query, provide latitude and longitude', 'coordinates');
       }
 
-      const sweref99Point = wgs84ToSweref99({ latitude: args.latitude, longitude: args.longitude });
+      const sweref99Point = toSweref99(args.latitude, args.longitude, args.inputCrs);
 
-      const result = await lantmaterietClient.findPropertyByPoint(sweref99Point);
+      const found = await lantmaterietClient.findPropertyByPoint(sweref99Point);
+      const result = { ...found, properties: found.properties.map((p) => toOutputProperty(p, args)) };
 
       return {
         query_type: 'coordinate',
-        coordinate_system: CRS_WGS84,
-        search_coordinate: {
-          latitude: args.latitude,
-          longitude: args.longitude,
-        },
+        coordinate_system: outputCrs,
+        search_coordinate: fromSweref99(sweref99Point, outputCrs),
         result,
         note:
           result.totalCount === 0 ? 'No property found at this location. Check if coordinates are within Sweden.' : undefined,
@@ -74,13 +461,23 @@ export const propertySearchHandler = withErrorHandling(async (args: PropertySear
         throw new ValidationError('Address is required for address query', 'address');
       }
 
-      const result = await lantmaterietClient.findPropertyByAddress(args.address);
+      const found = await lantmaterietClient.findPropertyByAddress(args.address);
+      const result = { properties: found.properties.map((p) => toOutputProperty(p, args)), totalCount: found.totalCount };
+      const matched = found.matchedAddress;
 
       return {
         query_type: 'address',
         search_address: args.address,
+        coordinate_system: outputCrs,
+        matched_address: matched ? `${matched.adress}, ${matched.postnummer} ${matched.postort}`.trim() : undefined,
         result,
-        note: result.totalCount === 0 ? 'No property found for this address. Try a more specific address.' : undefined,
+        note:
+          result.totalCount === 0
+            ? 'No property found for this address. Try a more specific address.'
+            : (found.addressCandidateCount ?? 0) > 1
+              ? `${found.addressCandidateCount} addresses matched; the best-ranked one was used. ` +
+                'Check matched_address, or use lm_address_search to pick the right candidate.'
+              : undefined,
       };
     }
 
@@ -89,16 +486,58 @@ export const propertySearchHandler = withErrorHandling(async (args: PropertySear
         throw new ValidationError('Designation is required for designation query', 'designation');
       }
 
-      const property = await lantmaterietClient.findPropertyByDesignation(args.designation);
+      return getPropertiesByDesignation(args);
+    }
+
+    case 'area':
+      return getPropertiesInArea(args);
+
+    case 'objektidentitet': {
+      const objektidentitet = requireObjektidentitet(args.objektidentitet);
+      const found = await lantmaterietClient.findPropertyById(objektidentitet);
+      const property = found ? toOutputProperty(found, args) : null;
 
       return {
-        query_type: 'designation',
-        search_designation: args.designation,
+        query_type: 'objektidentitet',
+        search_objektidentitet: objektidentitet,
+        coordinate_system: outputCrs,
         found: property !== null,
         property,
-        note:
-          property === null
-            ? 'No property found with this designation. Format should be "KOMMUN TRAKT BLOCK:ENHET".'
+        note: property === null ? 'No property found with this objektidentitet. It may have been merged or split.' : undefined,
+      };
+    }
+
+    case 'adjacent': {
+      const property = await resolveSubjectProperty(args);
+      if (!property.geometry) {
+        throw new ValidationError(`Property ${property.beteckning} has no boundary geometry`, 'objektidentitet');
+      }
+      const boundary = property.geometry;
+
+      // Candidates come from the bbox grown by the tolerance, read page by page; only those with a shared edge are kept
+      const candidates = await lantmaterietClient.findPropertiesByGeometry(bboxPolygon(geometryBbox(boundary)), {
+        buffer: ADJACENCY_TOLERANCE_METERS,
+      });
+      const neighbours = candidates.properties
+        .filter((p) => p.objektidentitet !== property.objektidentitet && p.geometry)
+        .map((p) => ({ property: p, shared: sharedBoundaryLength(boundary, p.geometry!, ADJACENCY_TOLERANCE_METERS) }))
+        .filter((n) => n.shared > ADJACENCY_TOLERANCE_METERS)
+        .sort((a, b) => b.shared - a.shared);
+
+      return {
+        query_type: 'adjacent',
+        coordinate_system: outputCrs,
+        property: toOutputProperty(property, args),
+        totalCount: neighbours.length,
+        complete: candidates.complete,
+        neighbours: neighbours.map((n) => ({
+          ...toOutputProperty(n.property, args),
+          shared_boundary_meters: Math.round(n.shared * 10) / 10,
+        })),
+        note: !candidates.complete
+          ? 'The property is so large that not every parcel around it could be read, so some neighbours may be missing.'
+          : neighbours.length === 0
+            ? 'No parcels share a boundary with this property (it may be bounded by water).'
             : undefined,
       };
     }
@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import { lantmaterietClient } from '@/clients/lantmateriet-client';
+import { withErrorHandling } from '@/lib/response';
+import { sweref99BboxToCrs, CRS_SWEREF99TM, CRS_WGS84, type BoundingBox } from '@/lib/coordinates';
+import { assertAreaWithin, resolveArea, sourceTiles } from '@/lib/area';
+import { chooseResolution, clipGridToGeometry } from '@/lib/raster';
+import {
+  encodeGeoTiff,
+  encodePreviewPng,
+  storeExport,
+  EXPORT_FORMATS,
+  EXPORT_PATH,
+  NO_DATA,
+  type ExportDataType,
+  type ExportFormat,
+} from '@/lib/raster-export';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { crsInputSchema, type CrsInput } from './crs-params';
+
+const COLLECTIONS = ['ortofoto', 'hojd'] as const;
+type Collection = (typeof COLLECTIONS)[number];
+
+// Finest pixel size read by default; the orthophoto COGs are 0.25 m or finer and the DEM is a 1 m grid
+const NATIVE_RESOLUTION_METERS: Record<Collection, number> = { ortofoto: 0.25, hojd: 1 };
+const DATA_TYPES: Record<Collection, ExportDataType> = { ortofoto: 'uint8', hojd: 'float32' };
+
+// 2000 x 2000 px; bounds both memory while mosaicking and the size of the uncompressed file
+const MAX_EXPORT_CELLS = 4_000_000;
+const MAX_AREA_SQUARE_METERS = 25_000_000;
+const MAX_BANDS = 4;
+
+export const rasterExportInputSchema = {
+  collection: z
+    .enum(COLLECTIONS)
+    .optional()
+    .default('hojd')
+    .describe('"hojd" (elevation model, float meters, default) or "ortofoto" (aerial imagery, 8-bit bands)'),
+  minLat: z.number().optional().describe('Bbox minimum latitude (WGS84) or northing'),
+  minLon: z.number().optional().describe('Bbox minimum longitude (WGS84) or easting'),
+  maxLat: z.number().optional().describe('Bbox maximum latitude (WGS84) or northing'),
+  maxLon: z.number().optional().describe('Bbox maximum longitude (WGS84) or easting'),
+  polygon: z
+    .array(z.array(z.number()).length(2))
+    .optional()
+    .describe('Clip outline as [latitude, longitude] (or [northing, easting]) pairs; cells outside become no-data'),
+  resolution: z
+    .number()
+    .optional()
+    .describe(
+      'Output pixel size in meters, to resample. Default: the finest the area allows (0.25 m orthophoto, 1 m elevation)',
+    ),
+  bands: z
+    .array(z.number().int())
+    .optional()
+    .describe('Orthophoto band indexes to export, 0-based (default: [0, 1, 2], RGB; 3 is near-infrared where present)'),
+  format: z
+    .enum(EXPORT_FORMATS)
+    .optional()
+    .default('geotiff')
+    .describe('"geotiff" (georeferenced SWEREF99 TM data, default) or "png" (preview image)'),
+  ...crsInputSchema,
+};
+
+export const rasterExportTool = {
+  name: 'lm_raster_export',
+  description:
+    'Clip orthophoto or elevation data to an area and export it as a GeoTIFF (or PNG preview) for download. ' +
+    'Reads only the needed windows of the covering STAC COG tiles, mosaics them and optionally resamples, ' +
+    `up to ${MAX_EXPORT_CELLS / 1e6} million pixels and ${MAX_AREA_SQUARE_METERS / 1e6} km². ` +
+    'Returns a download URL (when the server has a public URL), valid for 24 hours. ' +
+    'Exported files are in SWEREF99 TM (EPSG:3006); input coordinates in WGS84 by default (see inputCrs/outputCrs). ' +
+    'Data is CC-BY 4.0 from Lantmäteriet.',
+  inputSchema: rasterExportInputSchema,
+};
+
+type RasterExportInput = {
+  collection?: Collection;
+  minLat?: number;
+  minLon?: number;
+  maxLat?: number;
+  maxLon?: number;
+  polygon?: number[][];
+  resolution?: number;
+  bands?: number[];
+  format?: ExportFormat;
+} & CrsInput;
+
+function resolveBands(collection: Collection, bands: number[] | undefined): number[] {
+  if (collection === 'hojd') return [0];
+  const selected = bands && bands.length > 0 ? bands : [0, 1, 2];
+  if (selected.length > MAX_BANDS || selected.some((b) => b < 0 || b >= MAX_BANDS)) {
+    throw new ValidationError(`bands must be up to ${MAX_BANDS} indexes between 0 and ${MAX_BANDS - 1}`, 'bands');
+  }
+  return selected;
+}
+
+// The requested pixel size is used as given; without one, the finest size that fits the pixel budget
+function resolveResolution(bbox: BoundingBox, collection: Collection, requested: number | undefined): number {
+  const cellsAt = (resolution: number) =>
+    Math.ceil((bbox.maxX - bbox.minX) / resolution) * Math.ceil((bbox.maxY - bbox.minY) / resolution);
+  const fitting = chooseResolution(bbox, NATIVE_RESOLUTION_METERS[collection], MAX_EXPORT_CELLS);
+
+  if (requested === undefined) return fitting;
+  if (requested <= 0) {
+    throw new ValidationError('resolution must be a positive number of meters', 'resolution');
+  }
+  if (cellsAt(requested) > MAX_EXPORT_CELLS) {
+    throw new ValidationError(
+      `At ${requested} m the export would be ${Math.round(cellsAt(requested) / 1e6)} million pixels, the maximum is ` +
+        `${MAX_EXPORT_CELLS / 1e6} million. Use resolution ${fitting} or larger, or a smaller area`,
+      'resolution',
+    );
+  }
+  return requested;
+}
+
+export const rasterExportHandler = withErrorHandling(async (args: RasterExportInput) => {
+  const collection = args.collection || 'hojd';
+  const format = args.format || 'geotiff';
+  const outputCrs = args.outputCrs || CRS_WGS84;
+
+  const { geometry, bbox } = await resolveArea(args);
+  // The whole bbox is read and written, so it is what counts towards the limit
+  assertAreaWithin((bbox.maxX - bbox.minX) * (bbox.maxY - bbox.minY), MAX_AREA_SQUARE_METERS);
+
+  const samples = resolveBands(collection, args.bands);
+  const resolution = resolveResolution(bbox, collection, args.resolution);
+
+  const grid = await lantmaterietClient.readStacRaster(bbox, collection, resolution, { samples });
+  if (grid.usedSources.length === 0) {
+    throw new NotFoundError(`${collection} raster coverage`, 'the requested area');
+  }
+  if (geometry) {
+    clipGridToGeometry(grid, geometry);
+  }
+
+  const dataType = DATA_TYPES[collection];
+  const body = format === 'png' ? await encodePreviewPng(grid) : encodeGeoTiff(grid, dataType);
+  const stored = await storeExport(body, format, collection);
+
+  return {
+    collection,
+    format,
+    coordinate_system: outputCrs,
+    file_crs: CRS_SWEREF99TM,
+    bbox: sweref99BboxToCrs(grid.bbox, outputCrs),
+    resolution_meters: resolution,
+    width: grid.width,
+    height: grid.height,
+    bands: samples,
+    data_type: format === 'png' ? 'rgba8' : dataType,
+    no_data: format === 'png' ? 'transparent' : NO_DATA[dataType],
+    clipped_to_polygon: geometry !== undefined,
+    source_tiles: sourceTiles(grid).map((item) => item.id),
+    coverage_note: grid.coverageNote,
+    download: {
+      url: stored.url ?? null,
+      file_name: stored.fileName,
+      size_bytes: stored.sizeBytes,
+      content_type: stored.contentType,
+      expires_at: stored.expiresAt,
+    },
+    note: stored.url
+      ? undefined
+      : `No public base URL is configured (PUBLIC_BASE_URL), so the file can only be downloaded from this server at ${EXPORT_PATH}/${stored.fileName}.`,
+    license: 'CC-BY 4.0 - attribution required (© Lantmäteriet)',
+  };
+});
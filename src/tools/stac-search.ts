@@ -1,17 +1,54 @@
 import { z } from 'zod';
 import { withErrorHandling } from '@/lib/response';
-import { ValidationError } from '@/lib/errors';
-import { lantmaterietClient } from '@/clients/lantmateriet-client';
-import { wgs84ToSweref99, wgs84BboxToSweref99, sweref99BboxToWgs84, validateBbox, type BoundingBox, CRS_WGS84 } from '@/lib/coordinates';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { lantmaterietClient, type StacQuery } from '@/clients/lantmateriet-client';
+import {
+  toSweref99,
+  toSweref99Bbox,
+  sweref99BboxToCrs,
+  sweref99GeometryToCrs,
+  validateBbox,
+  type BoundingBox,
+  type SupportedCrs,
+  CRS_WGS84,
+} from '@/lib/coordinates';
+import { bboxPolygon, geometryBbox } from '@/lib/geometry';
+import {
+  buildStacDatetime,
+  buildStacFilter,
+  coveragePercent,
+  describeStacAssets,
+  parseSortBy,
+  stacFootprint,
+} from '@/lib/stac';
+import type { StacItem } from '@/types/lantmateriet';
+import { crsInputSchema, type CrsInput } from './crs-params';
+
+const MODES = ['search', 'detail'] as const;
+type Mode = (typeof MODES)[number];
+
+const MAX_PAGE_SIZE = 100;
 
 export const stacSearchInputSchema = {
-  minLat: z.number().optional().describe('Min latitude (WGS84). e.g., 59.30'),
-  minLon: z.number().optional().describe('Min longitude (WGS84). e.g., 18.00'),
-  maxLat: z.number().optional().describe('Max latitude (WGS84). e.g., 59.35'),
-  maxLon: z.number().optional().describe('Max longitude (WGS84). e.g., 18.10'),
+  mode: z
+    .enum(MODES)
+    .optional()
+    .default('search')
+    .describe(
+      '"search" (one download URL per item, default) or "detail" (every asset with type, roles and size, the item footprint, ' +
+        'collection metadata and how much of the search area each item covers)',
+    ),
+  itemId: z
+    .string()
+    .optional()
+    .describe('Item id from an earlier search, to inspect one item with mode="detail". The search area is then optional'),
+  minLat: z.number().optional().describe('Min latitude (WGS84) or northing. e.g., 59.30'),
+  minLon: z.number().optional().describe('Min longitude (WGS84) or easting. e.g., 18.00'),
+  maxLat: z.number().optional().describe('Max latitude (WGS84) or northing. e.g., 59.35'),
+  maxLon: z.number().optional().describe('Max longitude (WGS84) or easting. e.g., 18.10'),
 
-  latitude: z.number().optional().describe('Center latitude (WGS84). e.g., 59.33'),
-  longitude: z.number().optional().describe('Center longitude (WGS84). e.g., 18.07'),
+  latitude: z.number().optional().describe('Center latitude (WGS84) or northing. e.g., 59.33'),
+  longitude: z.number().optional().describe('Center longitude (WGS84) or easting. e.g., 18.07'),
   radius: z.number().optional().default(500).describe('Search radius in meters (default: 500)'),
 
   collection: z
@@ -19,7 +56,25 @@ export const stacSearchInputSchema = {
     .optional()
     .default('ortofoto')
     .describe('Collection: "ortofoto" for aerial imagery with NIR bands, "hojd" for elevation data'),
-  maxResults: z.number().optional().default(10).describe('Maximum results to return (default: 10)'),
+  startDate: z.string().optional().describe('Earliest acquisition date, YYYY-MM-DD or RFC 3339 timestamp, e.g. "2023-01-01"'),
+  endDate: z.string().optional().describe('Latest acquisition date, YYYY-MM-DD or RFC 3339 timestamp, e.g. "2023-12-31"'),
+  minResolution: z.number().optional().describe('Minimum pixel size in meters (the "resolution" item property)'),
+  maxResolution: z.number().optional().describe('Maximum pixel size in meters, e.g. 0.5 for imagery at 0.5 m or finer'),
+  maxCloudCover: z.number().optional().describe('Maximum cloud cover in percent (eo:cloud_cover), where reported'),
+  filter: z
+    .string()
+    .optional()
+    .describe('Extra CQL2 text filter on item properties, combined with the other filters using AND, e.g. "proj:epsg" = 3006'),
+  sortBy: z
+    .array(z.string())
+    .optional()
+    .describe('Sort fields, "-" prefix for descending, e.g. ["-datetime"] for newest first or ["resolution"] for finest first'),
+  cursor: z
+    .string()
+    .optional()
+    .describe('next_cursor from a previous result, to fetch the next page. Repeat the other search parameters unchanged'),
+  maxResults: z.number().optional().default(10).describe(`Maximum results per page (default: 10, max: ${MAX_PAGE_SIZE})`),
+  ...crsInputSchema,
 };
 
 export const stacSearchTool = {
@@ -28,11 +83,16 @@ export const stacSearchTool = {
     'Search Lantmäteriet STAC catalog for downloadable orthophoto or elevation data. ' +
     'Returns COG (Cloud Optimized GeoTIFF) download URLs. Orthophotos include NIR bands for vegetation analysis. ' +
     'Specify either a bounding box (minLat/minLon/maxLat/maxLon) or center point + radius (latitude/longitude + radius). ' +
-    'All coordinates in WGS84. Example: latitude: 59.33, longitude: 18.07, radius: 500 for Stockholm area.',
+    'Filter by date range, pixel size, cloud cover or any CQL2 expression, sort (e.g. newest or finest first), ' +
+    'and page through large result sets with next_cursor. ' +
+    'mode="detail" lists all assets, bands and footprints per item with coverage of the search area, to choose tiles. ' +
+    'Coordinates in WGS84 by default (see inputCrs/outputCrs). Example: latitude: 59.33, longitude: 18.07, radius: 500 for Stockholm area.',
   inputSchema: stacSearchInputSchema,
 };
 
 type StacSearchInput = {
+  mode?: Mode;
+  itemId?: string;
   minLat?: number;
   minLon?: number;
   maxLat?: number;
@@ -41,23 +101,36 @@ type StacSearchInput = {
   longitude?: number;
   radius?: number;
   collection?: 'ortofoto' | 'hojd';
+  startDate?: string;
+  endDate?: string;
+  minResolution?: number;
+  maxResolution?: number;
+  maxCloudCover?: number;
+  filter?: string;
+  sortBy?: string[];
+  cursor?: string;
   maxResults?: number;
-};
+} & CrsInput;
+
+function hasSearchArea(input: StacSearchInput): boolean {
+  return (
+    (input.minLat !== undefined && input.minLon !== undefined && input.maxLat !== undefined && input.maxLon !== undefined) ||
+    (input.latitude !== undefined && input.longitude !== undefined)
+  );
+}
 
 function buildBbox(input: StacSearchInput): BoundingBox {
   if (input.minLat !== undefined && input.minLon !== undefined && input.maxLat !== undefined && input.maxLon !== undefined) {
-    const bbox = wgs84BboxToSweref99({
-      minLat: input.minLat,
-      minLon: input.minLon,
-      maxLat: input.maxLat,
-      maxLon: input.maxLon,
-    });
+    const bbox = toSweref99Bbox(
+      { minLat: input.minLat, minLon: input.minLon, maxLat: input.maxLat, maxLon: input.maxLon },
+      input.inputCrs,
+    );
     validateBbox(bbox);
     return bbox;
   }
 
   if (input.latitude !== undefined && input.longitude !== undefined) {
-    const center = wgs84ToSweref99({ latitude: input.latitude, longitude: input.longitude });
+    const center = toSweref99(input.latitude, input.longitude, input.inputCrs);
     const radius = input.radius || 500;
 
     const bbox: BoundingBox = {
@@ -71,37 +144,124 @@ function buildBbox(input: StacSearchInput): BoundingBox {
   }
 
   throw new ValidationError(
-    'Either bounding box (minLat/minLon/maxLat/maxLon) or center point (latitude/longitude) is required. All coordinates in WGS84.',
+    'Either bounding box (minLat/minLon/maxLat/maxLon) or center point (latitude/longitude) is required.',
     'search_area',
   );
 }
 
-export const stacSearchHandler = withErrorHandling(async (args: StacSearchInput) => {
-  const bbox = buildBbox(args);
+function searchQuery(args: StacSearchInput, bbox: BoundingBox | undefined): StacQuery {
   const collection = args.collection || 'ortofoto';
   const maxResults = args.maxResults || 10;
+  if (maxResults < 1 || maxResults > MAX_PAGE_SIZE) {
+    throw new ValidationError(`maxResults must be between 1 and ${MAX_PAGE_SIZE}`, 'maxResults');
+  }
+  if (args.minResolution !== undefined && args.maxResolution !== undefined && args.minResolution > args.maxResolution) {
+    throw new ValidationError('minResolution must not be larger than maxResolution', 'minResolution');
+  }
 
-  const items = await lantmaterietClient.searchStac(bbox, collection, maxResults);
+  return {
+    bbox,
+    collection,
+    limit: maxResults,
+    datetime: buildStacDatetime(args.startDate, args.endDate),
+    filter: buildStacFilter(args),
+    sortby: args.sortBy ? parseSortBy(args.sortBy) : undefined,
+    cursor: args.cursor,
+  };
+}
 
-  const wgs84Bbox = sweref99BboxToWgs84(bbox);
+function describeItem(item: StacItem, searchArea: BoundingBox | undefined, outputCrs: SupportedCrs) {
+  const footprint = stacFootprint(item);
+  return {
+    id: item.id,
+    collection: item.collection ?? null,
+    datetime: item.properties.datetime,
+    epsg: item.properties['proj:epsg'] ?? null,
+    resolution: item.properties.resolution ?? null,
+    bands: item.properties['eo:bands']?.map((b) => b.common_name || b.name),
+    footprint: footprint ? sweref99GeometryToCrs(footprint, outputCrs) : null,
+    footprint_bbox: footprint ? sweref99BboxToCrs(geometryBbox(footprint), outputCrs) : null,
+    search_area_coverage_percent: searchArea && footprint ? coveragePercent(bboxPolygon(searchArea), [footprint]) : undefined,
+    assets: describeStacAssets(item),
+  };
+}
+
+// Full items with all assets, footprints and collection metadata, for choosing which tiles to download
+async function getItemDetails(args: StacSearchInput) {
+  const outputCrs = args.outputCrs || CRS_WGS84;
+  const bbox = args.itemId && !hasSearchArea(args) ? undefined : buildBbox(args);
+  const query = searchQuery(args, bbox);
+
+  const page = await lantmaterietClient.searchStacItems(
+    args.itemId ? { collection: query.collection, ids: [args.itemId], limit: 1 } : query,
+  );
+  if (args.itemId && page.items.length === 0) {
+    throw new NotFoundError('STAC item', args.itemId);
+  }
+
+  const collectionIds = [...new Set(page.items.map((item) => item.collection).filter((id): id is string => !!id))];
+  const collections = await Promise.all(collectionIds.map((id) => lantmaterietClient.getStacCollection(query.collection, id)));
+
+  const footprints = page.items.map(stacFootprint).filter((f) => f !== null);
+  const nextCursor = args.itemId ? undefined : page.nextCursor;
+
+  return {
+    mode: 'detail',
+    collection: query.collection,
+    coordinate_system: outputCrs,
+    searchArea: bbox ? sweref99BboxToCrs(bbox, outputCrs) : undefined,
+    numberMatched: page.numberMatched,
+    resultCount: page.items.length,
+    has_more: nextCursor !== undefined,
+    next_cursor: nextCursor,
+    // Share of the search area covered by all items on this page together
+    combined_coverage_percent: bbox ? coveragePercent(bboxPolygon(bbox), footprints) : undefined,
+    collections: collections
+      .filter((c) => c !== null)
+      .map((c) => ({
+        id: c.id,
+        title: c.title ?? null,
+        description: c.description ?? null,
+        license: c.license ?? null,
+        keywords: c.keywords,
+        providers: c.providers?.map((p) => p.name),
+        temporal_extent: c.extent?.temporal?.interval?.[0] ?? null,
+        summaries: c.summaries,
+      })),
+    items: page.items.map((item) => describeItem(item, bbox, outputCrs)),
+  };
+}
+
+export const stacSearchHandler = withErrorHandling(async (args: StacSearchInput) => {
+  if (args.mode === 'detail') {
+    return getItemDetails(args);
+  }
+
+  const bbox = buildBbox(args);
+  const query = searchQuery(args, bbox);
+  const { collection, datetime, filter, sortby } = query;
+  const page = await lantmaterietClient.searchStacPage(query);
+
+  const outputCrs = args.outputCrs || CRS_WGS84;
 
   return {
     collection,
-    coordinate_system: CRS_WGS84,
-    searchArea: {
-      minLat: wgs84Bbox.minLat,
-      minLon: wgs84Bbox.minLon,
-      maxLat: wgs84Bbox.maxLat,
-      maxLon: wgs84Bbox.maxLon,
-    },
-    resultCount: items.length,
-    items,
+    coordinate_system: outputCrs,
+    searchArea: sweref99BboxToCrs(bbox, outputCrs),
+    filters: { datetime, filter, sortby },
+    numberMatched: page.numberMatched,
+    resultCount: page.items.length,
+    has_more: page.nextCursor !== undefined,
+    next_cursor: page.nextCursor,
+    items: page.items,
     notes: {
       format: 'COG (Cloud Optimized GeoTIFF) with Deflate compression',
       download_crs: 'SWEREF99 TM (EPSG:3006) - downloaded files use this CRS',
       license: 'CC-BY 4.0 - attribution required',
       nirBands:
-        collection === 'ortofoto' ? 'Orthophotos may include NIR (near-infrared) band for vegetation analysis' : undefined,
+        collection === 'ortofoto'
+          ? 'Orthophotos may include NIR (near-infrared) band; lm_vegetation_index computes NDVI from it'
+          : undefined,
       authentication: 'Download URLs require free Geotorget account authentication',
     },
   };
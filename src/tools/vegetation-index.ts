@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import { lantmaterietClient } from '@/clients/lantmateriet-client';
+import { round, withErrorHandling } from '@/lib/response';
+import { assertAreaWithin, resolveArea, sourceTiles } from '@/lib/area';
+import { chooseResolution } from '@/lib/raster';
+import { createMask } from '@/lib/terrain';
+import { encodeColorMappedPng, storeExport } from '@/lib/raster-export';
+import {
+  bandLayout,
+  classifyNdvi,
+  computeIndex,
+  indexStatistics,
+  NDVI_CLASSES,
+  NDVI_COLOR_RAMP,
+  VEGETATION_INDICES,
+  VEGETATION_NDVI_THRESHOLD,
+  type BandLayout,
+  type VegetationIndex,
+} from '@/lib/vegetation';
+import { incompleteCoverageNote } from '@/lib/stac';
+import { NotFoundError } from '@/lib/errors';
+import type { StacSearchResultItem } from '@/types/lantmateriet';
+import { crsInputSchema, type CrsInput } from './crs-params';
+
+// Orthophotos are 0.25 m or finer; larger areas are read from coarser overviews
+const ORTHOPHOTO_RESOLUTION_METERS = 0.25;
+const MAX_AREA_CELLS = 1_000_000;
+const MAX_AREA_SQUARE_METERS = 25_000_000;
+const MAX_TILES = 50;
+
+export const vegetationIndexInputSchema = {
+  minLat: z.number().optional().describe('Bbox minimum latitude (WGS84) or northing'),
+  minLon: z.number().optional().describe('Bbox minimum longitude (WGS84) or easting'),
+  maxLat: z.number().optional().describe('Bbox maximum latitude (WGS84) or northing'),
+  maxLon: z.number().optional().describe('Bbox maximum longitude (WGS84) or easting'),
+  polygon: z
+    .array(z.array(z.number()).length(2))
+    .optional()
+    .describe('Area outline as [latitude, longitude] (or [northing, easting]) pairs, alternative to the bbox'),
+  designation: z.string().optional().describe('Property designation, e.g. "UPPSALA KÅBO 1:1", to use its boundary as the area'),
+  indices: z
+    .array(z.enum(VEGETATION_INDICES))
+    .optional()
+    .default(['ndvi'])
+    .describe(
+      'Indices to compute (default: ["ndvi"]): "ndvi", "gndvi" (green NDVI), "savi" (soil-adjusted) and "ndwi" (open water)',
+    ),
+  preview: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Also write a colour-mapped NDVI PNG (brown = bare, green = dense vegetation) and return its download reference'),
+  ...crsInputSchema,
+};
+
+export const vegetationIndexTool = {
+  name: 'lm_vegetation_index',
+  description:
+    'Compute NDVI and other vegetation indices over a bbox, polygon or property in Sweden from the near-infrared band of ' +
+    'Lantmäteriet orthophotos. Returns min/max/mean/percentile statistics per index, the share of the area in NDVI classes ' +
+    `(water/bare, sparse, moderate, dense) with vegetation cover as NDVI ≥ ${VEGETATION_NDVI_THRESHOLD}, ` +
+    `and optionally a colour-mapped preview image. Max ${MAX_AREA_SQUARE_METERS / 1e6} km². ` +
+    'Coordinates in WGS84 by default; SWEREF99 TM, regional SWEREF99 zones and RT90 via inputCrs.',
+  inputSchema: vegetationIndexInputSchema,
+};
+
+type VegetationIndexInput = {
+  minLat?: number;
+  minLon?: number;
+  maxLat?: number;
+  maxLon?: number;
+  polygon?: number[][];
+  designation?: string;
+  indices?: VegetationIndex[];
+  preview?: boolean;
+} & CrsInput;
+
+// Tiles with a NIR band in the same band order as the newest one, oldest first so the newest is drawn on top
+function selectNirTiles(items: StacSearchResultItem[]): { layout: BandLayout; tiles: StacSearchResultItem[] } | null {
+  const withLayout = items
+    .map((item) => ({ item, layout: bandLayout(item.bands) }))
+    .filter((t): t is { item: StacSearchResultItem; layout: BandLayout } => t.layout !== null && !!t.item.downloadUrl)
+    .sort((a, b) => a.item.datetime.localeCompare(b.item.datetime));
+  if (withLayout.length === 0) return null;
+
+  const { layout } = withLayout[withLayout.length - 1];
+  const sameLayout = (l: BandLayout) => l.red === layout.red && l.green === layout.green && l.nir === layout.nir;
+  return { layout, tiles: withLayout.filter((t) => sameLayout(t.layout)).map((t) => t.item) };
+}
+
+export const vegetationIndexHandler = withErrorHandling(async (args: VegetationIndexInput) => {
+  const indices = args.indices && args.indices.length > 0 ? [...new Set(args.indices)] : (['ndvi'] as VegetationIndex[]);
+
+  const { geometry, bbox, source, area } = await resolveArea(args, (designation) =>
+    lantmaterietClient.findPropertyByDesignation(designation),
+  );
+  assertAreaWithin(area, MAX_AREA_SQUARE_METERS);
+
+  const listed = await lantmaterietClient.searchStacAll(bbox, 'ortofoto', MAX_TILES);
+  const selected = selectNirTiles(listed.items);
+  if (!selected) {
+    throw new NotFoundError('Near-infrared orthophoto coverage', 'the requested area');
+  }
+
+  const { layout, tiles } = selected;
+  const resolution = chooseResolution(bbox, ORTHOPHOTO_RESOLUTION_METERS, MAX_AREA_CELLS);
+  const grid = await lantmaterietClient.readStacRaster(bbox, 'ortofoto', resolution, {
+    samples: [layout.red, layout.green, layout.nir],
+    items: tiles,
+  });
+  const [red, green, nir] = grid.bands;
+  const mask = createMask(grid, geometry);
+
+  const ndvi = computeIndex('ndvi', { red, green, nir });
+  const statistics = Object.fromEntries(
+    indices.map((index) => {
+      const stats = indexStatistics(index === 'ndvi' ? ndvi : computeIndex(index, { red, green, nir }), mask);
+      return [
+        index,
+        stats && {
+          min: round(stats.min, 3),
+          max: round(stats.max, 3),
+          mean: round(stats.mean, 3),
+          std_dev: round(stats.stdDev, 3),
+          p10: round(stats.p10, 3),
+          median: round(stats.median, 3),
+          p90: round(stats.p90, 3),
+        },
+      ];
+    }),
+  );
+
+  const classCells = classifyNdvi(ndvi, mask);
+  const classifiedCells = classCells.reduce((sum, count) => sum + count, 0);
+  if (classifiedCells === 0) {
+    throw new NotFoundError('Orthophoto data', 'the requested area (the tiles may not cover it)');
+  }
+  // Shares are of the whole area, like the land cover breakdown, so cells without an index value (mostly where the
+  // imagery doesn't cover the area) are reported as uncovered rather than spread over the classes
+  const maskCells = mask.reduce((sum, inside) => sum + inside, 0);
+  const uncoveredCells = maskCells - classifiedCells;
+  const share = (cells: number) => ({
+    area_square_meters: Math.round((cells / maskCells) * area),
+    percent: round((cells / maskCells) * 100, 2),
+  });
+  const vegetatedCells = classCells
+    .filter((_, i) => NDVI_CLASSES[i].max > VEGETATION_NDVI_THRESHOLD)
+    .reduce((sum, count) => sum + count, 0);
+
+  let preview;
+  if (args.preview) {
+    const clipped = ndvi.map((value, i) => (mask[i] ? value : NaN));
+    const stored = await storeExport(
+      await encodeColorMappedPng(clipped, grid.width, grid.height, NDVI_COLOR_RAMP),
+      'png',
+      'ndvi',
+    );
+    preview = { url: stored.url ?? null, size_bytes: stored.sizeBytes, expires_at: stored.expiresAt };
+  }
+
+  return {
+    area_source: source,
+    area_square_meters: Math.round(area),
+    grid_resolution_meters: resolution,
+    cell_count: classifiedCells,
+    statistics,
+    ndvi_classes: NDVI_CLASSES.map((c, i) => ({
+      class: c.name,
+      max_ndvi: Number.isFinite(c.max) ? c.max : null,
+      ...share(classCells[i]),
+    })),
+    uncovered: uncoveredCells > 0 ? share(uncoveredCells) : undefined,
+    vegetation_cover_percent: share(vegetatedCells).percent,
+    source_tiles: sourceTiles(grid).map((item) => ({ id: item.id, datetime: item.datetime })),
+    coverage_note: listed.complete ? undefined : incompleteCoverageNote(listed.items.length),
+    preview,
+    note:
+      'Indices are computed from 8-bit orthophoto values without radiometric calibration, so compare them within ' +
+      'the same image rather than against satellite-derived thresholds. Imagery dates vary between tiles.',
+  };
+});
@@ -0,0 +1,246 @@
+import { z } from 'zod';
+import { lantmaterietClient } from '@/clients/lantmateriet-client';
+import { round, withErrorHandling } from '@/lib/response';
+import {
+  toSweref99,
+  fromSweref99,
+  sweref99GeometryToCrs,
+  CRS_WGS84,
+  type BoundingBox,
+  type SupportedCrs,
+} from '@/lib/coordinates';
+import { simplifyGeometry, type Position } from '@/lib/geometry';
+import { chooseResolution, vectorizeMask } from '@/lib/raster';
+import { sourceTiles } from '@/lib/area';
+import { lineOfSight, viewshed, type SightlinePoint } from '@/lib/visibility';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { crsInputSchema, type CrsInput } from './crs-params';
+
+const MODES = ['line_of_sight', 'viewshed'] as const;
+type Mode = (typeof MODES)[number];
+
+// Reads the 1 m grid DEM; longer lines and larger radii are read from coarser overviews
+const DEM_RESOLUTION_METERS = 1;
+const MAX_GRID_CELLS = 2_000_000;
+const MAX_LINE_METERS = 20_000;
+const MAX_RADIUS_METERS = 5_000;
+const DEFAULT_RADIUS_METERS = 2_000;
+// Eye height of a standing person
+const DEFAULT_OBSERVER_HEIGHT = 1.7;
+
+export const visibilityInputSchema = {
+  mode: z
+    .enum(MODES)
+    .optional()
+    .default('line_of_sight')
+    .describe(
+      '"line_of_sight" (can the target be seen from the observer, default) or ' +
+        '"viewshed" (the area visible from the observer within a radius)',
+    ),
+  latitude: z.number().describe('Observer latitude (WGS84) or northing (projected inputCrs)'),
+  longitude: z.number().describe('Observer longitude (WGS84) or easting (projected inputCrs)'),
+  targetLatitude: z.number().optional().describe('Target latitude (or northing). For mode="line_of_sight"'),
+  targetLongitude: z.number().optional().describe('Target longitude (or easting). For mode="line_of_sight"'),
+  observerHeight: z
+    .number()
+    .optional()
+    .default(DEFAULT_OBSERVER_HEIGHT)
+    .describe(
+      `Observer height above ground in meters (default: ${DEFAULT_OBSERVER_HEIGHT}, eye level), e.g. a mast or hub height`,
+    ),
+  targetHeight: z
+    .number()
+    .optional()
+    .default(0)
+    .describe(
+      'Target height above ground in meters (default: 0). For a viewshed this is the height seen at every cell, ' +
+        'e.g. 1.7 for "where can a person see the turbine from" with the turbine as observer',
+    ),
+  radius: z
+    .number()
+    .optional()
+    .default(DEFAULT_RADIUS_METERS)
+    .describe(`Viewshed radius in meters (default: ${DEFAULT_RADIUS_METERS}, max ${MAX_RADIUS_METERS})`),
+  includeGeometry: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Include the visible area as a GeoJSON (Multi)Polygon for mode="viewshed" (default: true)'),
+  ...crsInputSchema,
+};
+
+export const visibilityTool = {
+  name: 'lm_visibility',
+  description:
+    'Terrain visibility analysis in Sweden from the Lantmäteriet elevation model, for wind turbine, mast and building ' +
+    'permit questions. mode="line_of_sight": whether a target point can be seen from an observer point ' +
+    `(max ${MAX_LINE_METERS / 1000} km apart), with the first obstruction and the tightest clearance along the ` +
+    'sight line. mode="viewshed": the area visible from an observer ' +
+    `within a radius (max ${MAX_RADIUS_METERS / 1000} km), as visible area, percentage and polygon. ` +
+    'Heights are above ground; earth curvature and refraction are accounted for. The model is bare ground, so ' +
+    'buildings and trees do not block the view. ' +
+    'Coordinates in WGS84 by default; SWEREF99 TM, regional SWEREF99 zones and RT90 via inputCrs/outputCrs.',
+  inputSchema: visibilityInputSchema,
+};
+
+type VisibilityInput = {
+  mode?: Mode;
+  latitude: number;
+  longitude: number;
+  targetLatitude?: number;
+  targetLongitude?: number;
+  observerHeight?: number;
+  targetHeight?: number;
+  radius?: number;
+  includeGeometry?: boolean;
+} & CrsInput;
+
+const BARE_EARTH_NOTE =
+  'Computed on the bare-ground elevation model: buildings, trees and other vegetation are not included, so the ' +
+  'real view may be more obstructed.';
+
+function outputPosition([x, y]: Position, crs: SupportedCrs) {
+  const position = fromSweref99({ x, y }, crs);
+  return 'latitude' in position ? { latitude: round(position.latitude, 6), longitude: round(position.longitude, 6) } : position;
+}
+
+function validateHeights(args: VisibilityInput): { observerHeight: number; targetHeight: number } {
+  const observerHeight = args.observerHeight ?? DEFAULT_OBSERVER_HEIGHT;
+  const targetHeight = args.targetHeight ?? 0;
+  if (observerHeight < 0) {
+    throw new ValidationError('observerHeight must be 0 or more meters above ground', 'observerHeight');
+  }
+  if (targetHeight < 0) {
+    throw new ValidationError('targetHeight must be 0 or more meters above ground', 'targetHeight');
+  }
+  return { observerHeight, targetHeight };
+}
+
+function describePoint(point: SightlinePoint, crs: SupportedCrs) {
+  return {
+    ...outputPosition(point.position, crs),
+    distance_meters: round(point.distance),
+    terrain_elevation_meters: round(point.terrain, 2),
+    sightline_elevation_meters: round(point.sightline, 2),
+    clearance_meters: round(point.clearance, 2),
+  };
+}
+
+async function getLineOfSight(args: VisibilityInput, observer: Position, outputCrs: SupportedCrs) {
+  if (args.targetLatitude === undefined || args.targetLongitude === undefined) {
+    throw new ValidationError('For line_of_sight mode, provide targetLatitude and targetLongitude', 'target');
+  }
+  const { observerHeight, targetHeight } = validateHeights(args);
+  const { x, y } = toSweref99(args.targetLatitude, args.targetLongitude, args.inputCrs);
+  const target: Position = [x, y];
+
+  const distance = Math.hypot(target[0] - observer[0], target[1] - observer[1]);
+  if (distance === 0) {
+    throw new ValidationError('Observer and target are the same point', 'target');
+  }
+  if (distance > MAX_LINE_METERS) {
+    throw new ValidationError(
+      `Observer and target are ${round(distance / 1000)} km apart, the maximum is ${MAX_LINE_METERS / 1000} km`,
+      'target',
+    );
+  }
+
+  // Pad by a cell so both end points fall inside the grid
+  const bbox: BoundingBox = {
+    minX: Math.min(observer[0], target[0]) - DEM_RESOLUTION_METERS,
+    minY: Math.min(observer[1], target[1]) - DEM_RESOLUTION_METERS,
+    maxX: Math.max(observer[0], target[0]) + DEM_RESOLUTION_METERS,
+    maxY: Math.max(observer[1], target[1]) + DEM_RESOLUTION_METERS,
+  };
+  const resolution = chooseResolution(bbox, DEM_RESOLUTION_METERS, MAX_GRID_CELLS);
+  const grid = await lantmaterietClient.readStacRaster(bbox, 'hojd', resolution);
+
+  const result = lineOfSight(grid, observer, target, observerHeight, targetHeight);
+  if (!result) {
+    throw new NotFoundError('Elevation data', 'the observer or target point (it may be open water or outside Sweden)');
+  }
+
+  return {
+    mode: 'line_of_sight',
+    reference_system: 'RH 2000',
+    coordinate_system: outputCrs,
+    visible: result.visible,
+    distance_meters: round(result.distance),
+    grid_resolution_meters: resolution,
+    observer: {
+      ...outputPosition(observer, outputCrs),
+      ground_elevation_meters: round(result.observerGround, 2),
+      height_above_ground_meters: observerHeight,
+    },
+    target: {
+      ...outputPosition(target, outputCrs),
+      ground_elevation_meters: round(result.targetGround, 2),
+      height_above_ground_meters: targetHeight,
+    },
+    obstruction: result.obstruction ? describePoint(result.obstruction, outputCrs) : null,
+    min_clearance: result.minClearance ? describePoint(result.minClearance, outputCrs) : null,
+    sample_count: result.sampleCount,
+    coverage_note: grid.coverageNote,
+    note:
+      (result.noDataSamples > 0
+        ? `${result.noDataSamples} samples had no height data (e.g. open water) and were skipped. `
+        : '') + BARE_EARTH_NOTE,
+  };
+}
+
+async function getViewshed(args: VisibilityInput, observer: Position, outputCrs: SupportedCrs) {
+  const { observerHeight, targetHeight } = validateHeights(args);
+  const radius = args.radius ?? DEFAULT_RADIUS_METERS;
+  if (radius <= 0 || radius > MAX_RADIUS_METERS) {
+    throw new ValidationError(`radius must be between 0 and ${MAX_RADIUS_METERS} meters`, 'radius');
+  }
+
+  const bbox: BoundingBox = {
+    minX: observer[0] - radius,
+    minY: observer[1] - radius,
+    maxX: observer[0] + radius,
+    maxY: observer[1] + radius,
+  };
+  const resolution = chooseResolution(bbox, DEM_RESOLUTION_METERS, MAX_GRID_CELLS);
+  const grid = await lantmaterietClient.readStacRaster(bbox, 'hojd', resolution);
+
+  const result = viewshed(grid, observer, observerHeight, targetHeight, radius);
+  if (!result || result.analysedCells === 0) {
+    throw new NotFoundError('Elevation data', 'the observer point (it may be open water or outside Sweden)');
+  }
+
+  const cellArea = resolution * resolution;
+  const outline = args.includeGeometry === false ? null : vectorizeMask(grid, result.visible);
+
+  return {
+    mode: 'viewshed',
+    reference_system: 'RH 2000',
+    coordinate_system: outputCrs,
+    observer: {
+      ...outputPosition(observer, outputCrs),
+      ground_elevation_meters: round(result.observerGround, 2),
+      height_above_ground_meters: observerHeight,
+    },
+    target_height_meters: targetHeight,
+    radius_meters: radius,
+    grid_resolution_meters: resolution,
+    analysed_area_square_meters: Math.round(result.analysedCells * cellArea),
+    visible_area_square_meters: Math.round(result.visibleCells * cellArea),
+    visible_percent: round((result.visibleCells / result.analysedCells) * 100, 2),
+    visible_area: outline ? sweref99GeometryToCrs(simplifyGeometry(outline, resolution), outputCrs) : undefined,
+    source_tiles: sourceTiles(grid).map((item) => item.id),
+    coverage_note: grid.coverageNote,
+    note: BARE_EARTH_NOTE,
+  };
+}
+
+export const visibilityHandler = withErrorHandling(async (args: VisibilityInput) => {
+  const outputCrs = args.outputCrs || CRS_WGS84;
+  const { x, y } = toSweref99(args.latitude, args.longitude, args.inputCrs);
+  const observer: Position = [x, y];
+
+  if (args.mode === 'viewshed') {
+    return getViewshed(args, observer, outputCrs);
+  }
+  return getLineOfSight(args, observer, outputCrs);
+});
@@ -4,12 +4,77 @@ export interface PropertyInfo {
   kommun: string;
   lan: string;
   area?: number; // Area in square meters
-  geometry?: GeoJsonGeometry;
+  perimeter?: number; // Boundary length in meters
+  geometry?: GeoJsonGeometry; // SWEREF99 TM as returned by the API; tools reproject to WGS84
 }
 
 export interface PropertySearchResult {
   properties: PropertyInfo[];
   totalCount: number;
+  matchedAddress?: AddressResult; // Address lookups: the candidate the property was resolved from
+  addressCandidateCount?: number;
+}
+
+// Geometry searches read several upstream pages and stop at a cap, so the total isn't always known
+export interface PropertyGeometrySearchResult {
+  properties: PropertyInfo[];
+  totalCount?: number; // Upstream count, or the number read when every page was read
+  complete: boolean; // False when more properties matched than were read
+}
+
+export interface BuildingInfo {
+  objektidentitet: string;
+  objekttyp: string; // Main purpose, e.g. "Bostad", "Industri", "Samhällsfunktion"
+  andamal: string[]; // Detailed purposes, e.g. "Bostad; Småhus friliggande"
+  husnummer?: number;
+  fastighet?: string; // objektidentitet of the property the building stands on
+  area?: number; // Footprint area in square meters
+  geometry?: GeoJsonGeometry; // SWEREF99 TM as returned by the API; tools reproject to WGS84
+}
+
+export interface BuildingSearchResult {
+  buildings: BuildingInfo[];
+  totalCount: number;
+}
+
+export type AdministrativeUnitType = 'kommun' | 'lan' | 'forsamling';
+
+export interface AdministrativeUnit {
+  type: AdministrativeUnitType;
+  namn: string; // e.g. "Uppsala", "Uppsala län", "Uppsala domkyrkoförsamling"
+  kod: string; // Official code: kommunkod (4 digits), länskod (2 digits) or församlingskod (6 digits)
+  geometry?: GeoJsonGeometry; // SWEREF99 TM as returned by the API; tools reproject to WGS84
+}
+
+export interface AdministrativeUnits {
+  kommun?: AdministrativeUnit;
+  lan?: AdministrativeUnit;
+  forsamling?: AdministrativeUnit;
+}
+
+export interface LandCoverFeature {
+  objekttyp: string; // Marktäcke class, e.g. "Barr- och blandskog", "Åker", "Sankmark, våt", "Sjö"
+  geometry: GeoJsonGeometry; // SWEREF99 TM
+}
+
+export interface WaterFeature {
+  objektidentitet?: string;
+  namn?: string; // Many small lakes and streams are unnamed
+  objekttyp: string; // e.g. "Sjö", "Vattendrag", "Hav"
+  geometry: GeoJsonGeometry; // SWEREF99 TM; polygons for water areas, lines for watercourses
+}
+
+export interface PlaceNameResult {
+  namn: string;
+  objekttyp: string; // Feature type, e.g. "Sjö", "Tätort", "Berg"
+  kommun: string;
+  lan: string;
+  coordinate: {
+    x: number;
+    y: number;
+    crs: string;
+  };
+  distance?: number; // Meters from the query point (reverse lookups only)
 }
 
 export interface ElevationResult {
@@ -22,6 +87,13 @@ export interface ElevationResult {
   };
 }
 
+export interface MapTile {
+  zoom: number; // TileMatrix
+  row: number; // TileRow
+  col: number; // TileCol
+  url: string;
+}
+
 export interface MapUrlResult {
   url: string;
   layers: string[];
@@ -32,6 +104,13 @@ export interface MapUrlResult {
     maxX: number;
     maxY: number;
   };
+  // WMTS only: the tiles of the 3006 tile matrix set covering bbox
+  tileMatrixSet?: string;
+  zoom?: number;
+  maxZoom?: number;
+  resolution?: number; // Meters per pixel
+  tileRange?: { zoom: number; minCol: number; maxCol: number; minRow: number; maxRow: number };
+  tiles?: MapTile[];
 }
 
 export interface GeoJsonGeometry {
@@ -59,16 +138,34 @@ export interface LantmaterietApiError {
 }
 
 export interface StacAsset {
+  'href': string;
+  'type'?: string;
+  'title'?: string;
+  'roles'?: string[];
+  'file:size'?: number; // Bytes, when the catalog uses the file extension
+  'eo:bands'?: Array<{ name: string; common_name?: string }>;
+}
+
+// Links in STAC responses; paging links may carry the request to send for the next page
+export interface StacLink {
+  rel: string;
   href: string;
   type?: string;
-  title?: string;
-  roles?: string[];
+  method?: 'GET' | 'POST';
+  body?: Record<string, unknown>;
+  merge?: boolean; // Merge body into the previous request instead of replacing it
+}
+
+export interface StacSortBy {
+  field: string;
+  direction: 'asc' | 'desc';
 }
 
 export interface StacItem {
   id: string;
   type: 'Feature';
   stac_version: string;
+  collection?: string;
   geometry: GeoJsonGeometry;
   bbox: number[];
   properties: {
@@ -82,11 +179,7 @@ export interface StacItem {
     [key: string]: unknown;
   };
   assets: Record<string, StacAsset>;
-  links: Array<{
-    rel: string;
-    href: string;
-    type?: string;
-  }>;
+  links: StacLink[];
 }
 
 export interface StacSearchResponse {
@@ -94,11 +187,7 @@ export interface StacSearchResponse {
   features: StacItem[];
   numberMatched?: number;
   numberReturned?: number;
-  links?: Array<{
-    rel: string;
-    href: string;
-    type?: string;
-  }>;
+  links?: StacLink[];
 }
 
 export interface StacSearchResultItem {
@@ -110,3 +199,31 @@ export interface StacSearchResultItem {
   downloadUrl?: string;
   thumbnailUrl?: string;
 }
+
+export interface StacItemPage {
+  items: StacItem[];
+  numberMatched?: number;
+  numberReturned: number;
+  nextCursor?: string;
+}
+
+export interface StacCollection {
+  id: string;
+  title?: string;
+  description?: string;
+  license?: string;
+  keywords?: string[];
+  providers?: Array<{ name: string; roles?: string[]; url?: string }>;
+  extent?: {
+    spatial?: { bbox: number[][] };
+    temporal?: { interval: Array<Array<string | null>> };
+  };
+  summaries?: Record<string, unknown>;
+}
+
+export interface StacSearchPage {
+  items: StacSearchResultItem[];
+  numberMatched?: number; // Total across all pages, when the catalog reports it
+  numberReturned: number;
+  nextCursor?: string;
+}
@@ -4,6 +4,7 @@ const https = require('https');
 
 // Allow testing against production via MCP_URL env var
 const MCP_URL = process.env.MCP_URL || 'http://localhost:3000/mcp';
+const EXPECTED_TOOL_COUNT = 15;
 const parsedUrl = new URL(MCP_URL);
 const isHttps = parsedUrl.protocol === 'https:';
 const httpModule = isHttps ? https : http;
@@ -87,7 +88,7 @@ async function main() {
   const toolsResult = await testMCP('tools/list');
   if (toolsResult.result?.tools) {
     const toolCount = toolsResult.result.tools.length;
-    console.log(`   ${toolCount === 4 ? 'OK' : 'FAILED'} Found ${toolCount}/4 tools:`);
+    console.log(`   ${toolCount === EXPECTED_TOOL_COUNT ? 'OK' : 'FAILED'} Found ${toolCount}/${EXPECTED_TOOL_COUNT} tools:`);
     toolsResult.result.tools.forEach((t) => console.log(`      - ${t.name}`));
   } else {
     console.log('   FAILED to list tools');
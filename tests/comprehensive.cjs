@@ -4,6 +4,7 @@ const https = require('https');
 
 // Allow testing against production via MCP_URL env var
 const MCP_URL = process.env.MCP_URL || 'http://localhost:3000/mcp';
+const EXPECTED_TOOL_COUNT = 15;
 const parsedUrl = new URL(MCP_URL);
 const isHttps = parsedUrl.protocol === 'https:';
 const httpModule = isHttps ? https : http;
@@ -95,12 +96,12 @@ async function main() {
     recordTest('Initialize', false, `(error: ${error.message})`);
   }
 
-  // Test 2: List tools (should be exactly 4)
+  // Test 2: List tools (should match EXPECTED_TOOL_COUNT)
   console.log('\n2. Testing tools/list...');
   try {
     const toolsResult = await testMCP('tools/list');
     const toolCount = toolsResult.result?.tools?.length || 0;
-    recordTest('List tools', toolCount === 4, `(found ${toolCount}/4 tools)`);
+    recordTest('List tools', toolCount === EXPECTED_TOOL_COUNT, `(found ${toolCount}/${EXPECTED_TOOL_COUNT} tools)`);
   } catch (error) {
     recordTest('List tools', false, `(error: ${error.message})`);
   }
@@ -133,6 +134,51 @@ async function main() {
     recordTest('Property search - by designation', false, `(error: ${error.message})`);
   }
 
+  // 3c: Neighbouring parcels with shared boundary length
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_property_search',
+      arguments: { queryType: 'adjacent', designation: 'STOCKHOLM VASASTADEN 1:1', includeGeometry: false },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Property search - adjacent parcels', data.neighbours !== undefined || !data.error, `(found ${data.totalCount || 0} neighbours)`);
+  } catch (error) {
+    recordTest('Property search - adjacent parcels', false, `(error: ${error.message})`);
+  }
+
+  // 3d: Parcels along a buffered cable route, paged
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_property_search',
+      arguments: {
+        queryType: 'area',
+        path: [
+          [59.33, 18.06],
+          [59.335, 18.07],
+        ],
+        buffer: 20,
+        pageSize: 10,
+        includeGeometry: false,
+      },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Property search - corridor', data.properties !== undefined || !data.error, `(found ${data.totalCount || 0} parcels)`);
+  } catch (error) {
+    recordTest('Property search - corridor', false, `(error: ${error.message})`);
+  }
+
+  // 3e: Loosely written designation with a trailing kommun abbreviation
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_property_search',
+      arguments: { queryType: 'designation', designation: 'vasastaden 1 1 sthlm', includeGeometry: false },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Property search - fuzzy designation', data.candidates !== undefined || !data.error, `(${data.normalized_designation || '?'})`);
+  } catch (error) {
+    recordTest('Property search - fuzzy designation', false, `(error: ${error.message})`);
+  }
+
   // ============ lm_elevation ============
   console.log('\n4. Testing lm_elevation...');
 
@@ -172,6 +218,30 @@ async function main() {
     recordTest('Elevation - Kiruna', false, `(error: ${error.message})`);
   }
 
+  // 4d: Elevation profile along a short line in Stockholm
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_elevation',
+      arguments: { mode: 'profile', path: [[59.33, 18.07], [59.335, 18.08]], spacing: 50 },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Elevation - profile', data.samples !== undefined || !data.error, `(${data.sample_count || 0} samples)`);
+  } catch (error) {
+    recordTest('Elevation - profile', false, `(error: ${error.message})`);
+  }
+
+  // 4e: Batch elevation with a duplicate point
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_elevation',
+      arguments: { mode: 'batch', points: [[59.33, 18.07], [57.71, 11.97], [59.33, 18.07]] },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Elevation - batch', data.results !== undefined || !data.error, `(${data.unique_point_count || 0} unique points)`);
+  } catch (error) {
+    recordTest('Elevation - batch', false, `(error: ${error.message})`);
+  }
+
   // ============ lm_map_url ============
   console.log('\n5. Testing lm_map_url...');
 
@@ -182,7 +252,7 @@ async function main() {
       arguments: { latitude: 59.33, longitude: 18.07, mapType: 'topographic', zoom: 10 },
     });
     const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
-    recordTest('Map URL - topographic', data.url !== undefined || data.urls !== undefined || !data.error, '');
+    recordTest('Map URL - topographic', Array.isArray(data.tiles) && data.tiles.length > 0, `(${data.tile_count || 0} tiles at zoom ${data.zoom})`);
   } catch (error) {
     recordTest('Map URL - topographic', false, `(error: ${error.message})`);
   }
@@ -199,6 +269,18 @@ async function main() {
     recordTest('Map URL - ortofoto', false, `(error: ${error.message})`);
   }
 
+  // 5c: SWEREF99 TM input (northing/easting) and output
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_map_url',
+      arguments: { latitude: 6580000, longitude: 674000, mapType: 'topographic', outputCrs: 'EPSG:3006' },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Map URL - SWEREF99 TM', data.center?.easting === 674000, `(crs: ${data.crs})`);
+  } catch (error) {
+    recordTest('Map URL - SWEREF99 TM', false, `(error: ${error.message})`);
+  }
+
   // ============ lm_stac_search ============
   console.log('\n6. Testing lm_stac_search...');
 
@@ -218,6 +300,249 @@ async function main() {
     recordTest('STAC search - ortofoto', false, `(error: ${error.message})`);
   }
 
+  // 6b: Newest orthophoto from 2023
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_stac_search',
+      arguments: {
+        latitude: 59.33,
+        longitude: 18.07,
+        collection: 'ortofoto',
+        startDate: '2023-01-01',
+        endDate: '2023-12-31',
+        sortBy: ['-datetime'],
+        maxResults: 1,
+      },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('STAC search - date range and sort', data.items !== undefined || !data.error, `(${data.numberMatched ?? '?'} matched)`);
+  } catch (error) {
+    recordTest('STAC search - date range and sort', false, `(error: ${error.message})`);
+  }
+
+  // 6c: Item details with assets and coverage
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_stac_search',
+      arguments: { mode: 'detail', latitude: 59.33, longitude: 18.07, collection: 'hojd', maxResults: 3 },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('STAC search - item details', data.items !== undefined || !data.error, `(${data.combined_coverage_percent ?? '?'}% covered)`);
+  } catch (error) {
+    recordTest('STAC search - item details', false, `(error: ${error.message})`);
+  }
+
+  // ============ lm_buildings ============
+  console.log('\n7. Testing lm_buildings...');
+
+  // 7a: Buildings at a coordinate
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_buildings',
+      arguments: { queryType: 'coordinate', latitude: 59.33, longitude: 18.07 },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Buildings - by coordinate', data.buildings !== undefined || !data.error, `(found ${data.totalCount || 0} buildings)`);
+  } catch (error) {
+    recordTest('Buildings - by coordinate', false, `(error: ${error.message})`);
+  }
+
+  // ============ lm_place_search ============
+  console.log('\n8. Testing lm_place_search...');
+
+  // 8a: Geocode a place name
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_place_search',
+      arguments: { queryType: 'name', name: 'Storsjön' },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Place search - by name', data.places !== undefined || !data.error, `(found ${data.resultCount || 0} places)`);
+  } catch (error) {
+    recordTest('Place search - by name', false, `(error: ${error.message})`);
+  }
+
+  // ============ lm_address_search ============
+  console.log('\n9. Testing lm_address_search...');
+
+  // 9a: Ambiguous address returns several candidates
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_address_search',
+      arguments: { queryType: 'address', address: 'Storgatan 1' },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Address search - candidates', data.candidates !== undefined || !data.error, `(found ${data.resultCount || 0} candidates)`);
+  } catch (error) {
+    recordTest('Address search - candidates', false, `(error: ${error.message})`);
+  }
+
+  // ============ lm_administrative_units ============
+  console.log('\n10. Testing lm_administrative_units...');
+
+  // 10a: Municipality, county and parish codes at a coordinate
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_administrative_units',
+      arguments: { queryType: 'coordinate', latitude: 59.8586, longitude: 17.6389 },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest(
+      'Administrative units - by coordinate',
+      data.kommun?.kommunkod !== undefined || !data.error,
+      `(kommun ${data.kommun?.namn || '-'} ${data.kommun?.kommunkod || ''})`,
+    );
+  } catch (error) {
+    recordTest('Administrative units - by coordinate', false, `(error: ${error.message})`);
+  }
+
+  // 10b: Municipalities in a county
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_administrative_units',
+      arguments: { queryType: 'county', county: 'Uppsala län' },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest(
+      'Administrative units - county listing',
+      data.municipalities !== undefined || !data.error,
+      `(found ${data.municipalityCount || 0} municipalities)`,
+    );
+  } catch (error) {
+    recordTest('Administrative units - county listing', false, `(error: ${error.message})`);
+  }
+
+  // ============ lm_land_cover ============
+  console.log('\n11. Testing lm_land_cover...');
+
+  // 11a: Area breakdown over a small bbox
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_land_cover',
+      arguments: { mode: 'area', minLat: 59.84, minLon: 17.6, maxLat: 59.85, maxLon: 17.62 },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Land cover - area breakdown', data.categories !== undefined || !data.error, `(${data.classes?.length || 0} classes)`);
+  } catch (error) {
+    recordTest('Land cover - area breakdown', false, `(error: ${error.message})`);
+  }
+
+  // ============ lm_hydrography ============
+  console.log('\n12. Testing lm_hydrography...');
+
+  // 12a: Water near a lakeside coordinate
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_hydrography',
+      arguments: { queryType: 'coordinate', latitude: 59.3255, longitude: 18.0437, radius: 300 },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest(
+      'Hydrography - nearest shoreline',
+      data.water_features !== undefined || !data.error,
+      `(nearest ${data.nearest_shoreline?.distance_meters ?? '-'} m)`,
+    );
+  } catch (error) {
+    recordTest('Hydrography - nearest shoreline', false, `(error: ${error.message})`);
+  }
+
+  // ============ lm_property_report ============
+  console.log('\n13. Testing lm_property_report...');
+
+  // 13a: Report for a coordinate, partial sections allowed
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_property_report',
+      arguments: { queryType: 'coordinate', latitude: 59.33, longitude: 18.07, includeGeometry: false },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest(
+      'Property report - by coordinate',
+      data.property !== undefined || !data.error,
+      `(${data.property?.beteckning || '-'}, ${data.errors?.length || 0} failed sections)`,
+    );
+  } catch (error) {
+    recordTest('Property report - by coordinate', false, `(error: ${error.message})`);
+  }
+
+  // ============ lm_raster_export ============
+  console.log('\n14. Testing lm_raster_export...');
+
+  // 14a: Clip the elevation model to a small bbox as GeoTIFF
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_raster_export',
+      arguments: { collection: 'hojd', minLat: 59.329, minLon: 18.068, maxLat: 59.331, maxLon: 18.072 },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Raster export - elevation GeoTIFF', data.download !== undefined || !data.error, `(${data.width || '?'}x${data.height || '?'} px)`);
+  } catch (error) {
+    recordTest('Raster export - elevation GeoTIFF', false, `(error: ${error.message})`);
+  }
+
+  // ============ lm_vegetation_index ============
+  console.log('\n15. Testing lm_vegetation_index...');
+
+  // 15a: NDVI over a park in Stockholm
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_vegetation_index',
+      arguments: { minLat: 59.326, minLon: 18.09, maxLat: 59.329, maxLon: 18.096, indices: ['ndvi', 'savi'] },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Vegetation index - NDVI', data.statistics !== undefined || !data.error, `(${data.vegetation_cover_percent ?? '?'}% vegetated)`);
+  } catch (error) {
+    recordTest('Vegetation index - NDVI', false, `(error: ${error.message})`);
+  }
+
+  // ============ lm_visibility ============
+  console.log('\n16. Testing lm_visibility...');
+
+  // 16a: Line of sight from Kaknästornet to Globen
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_visibility',
+      arguments: {
+        latitude: 59.3351,
+        longitude: 18.1274,
+        targetLatitude: 59.2935,
+        targetLongitude: 18.0831,
+        observerHeight: 150,
+      },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Visibility - line of sight', typeof data.visible === 'boolean' || !data.error, `(visible: ${data.visible ?? '?'})`);
+  } catch (error) {
+    recordTest('Visibility - line of sight', false, `(error: ${error.message})`);
+  }
+
+  // 16b: Viewshed from a hub-height observer
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_visibility',
+      arguments: { mode: 'viewshed', latitude: 59.3351, longitude: 18.1274, observerHeight: 100, radius: 1000 },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Visibility - viewshed', data.visible_percent !== undefined || !data.error, `(${data.visible_percent ?? '?'}% visible)`);
+  } catch (error) {
+    recordTest('Visibility - viewshed', false, `(error: ${error.message})`);
+  }
+
+  // ============ lm_flood_exposure ============
+  console.log('\n17. Testing lm_flood_exposure...');
+
+  // 17a: Sea-level rise scenarios along the Gothenburg waterfront
+  try {
+    const result = await testMCP('tools/call', {
+      name: 'lm_flood_exposure',
+      arguments: { minLat: 57.704, minLon: 11.94, maxLat: 57.708, maxLon: 11.948, levels: [1, 2, 3] },
+    });
+    const data = JSON.parse(result.result?.content?.[0]?.text || '{}');
+    recordTest('Flood exposure - levels', Array.isArray(data.levels) || !data.error, `(${data.levels?.[2]?.percent_below ?? '?'}% below 3 m)`);
+  } catch (error) {
+    recordTest('Flood exposure - levels', false, `(error: ${error.message})`);
+  }
+
   // Print summary
   console.log('\n' + '='.repeat(60));
   console.log('TEST SUMMARY');
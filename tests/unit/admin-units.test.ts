@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { countyForKommunkod, resolveCounty } from '../../src/lib/admin-units';
+import { interiorPoint, pointInGeometry } from '../../src/lib/geometry';
+import type { GeoJsonGeometry } from '../../src/types/lantmateriet';
+
+describe('resolveCounty', () => {
+  it('accepts codes and name variants', () => {
+    expect(resolveCounty('3').lanskod).toBe('03');
+    expect(resolveCounty('Stockholms län').lanskod).toBe('01');
+    expect(resolveCounty('skåne').lanskod).toBe('12');
+    expect(resolveCounty('Dalarna').lanskod).toBe('20');
+  });
+
+  it('rejects unknown counties', () => {
+    expect(() => resolveCounty('02')).toThrow(/Unknown county/);
+    expect(() => resolveCounty('Lapplands län')).toThrow(/Unknown county/);
+  });
+
+  it('derives the county from a kommunkod', () => {
+    expect(countyForKommunkod('0380')?.namn).toBe('Uppsala län');
+  });
+});
+
+describe('interiorPoint', () => {
+  it('stays inside a U-shaped polygon whose centroid is outside', () => {
+    const u: GeoJsonGeometry = {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [300, 0],
+          [300, 300],
+          [200, 300],
+          [200, 100],
+          [100, 100],
+          [100, 300],
+          [0, 300],
+          [0, 0],
+        ],
+      ],
+    };
+    expect(pointInGeometry([150, 150], u)).toBe(false);
+    expect(pointInGeometry(interiorPoint(u), u)).toBe(true);
+  });
+});
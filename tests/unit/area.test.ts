@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { assertAreaWithin, resolveArea, sourceTiles } from '../../src/lib/area';
+import type { PropertyInfo, StacSearchResultItem } from '../../src/types/lantmateriet';
+
+describe('resolveArea', () => {
+  it('reads a SWEREF99 TM bbox and a polygon', async () => {
+    const bbox = await resolveArea({ minLat: 6580000, minLon: 674000, maxLat: 6580200, maxLon: 674100 });
+    expect(bbox).toMatchObject({ source: 'bbox', area: 20_000 });
+    expect(bbox.geometry).toBeUndefined();
+
+    const polygon = await resolveArea({
+      polygon: [
+        [6580000, 674000],
+        [6580000, 674100],
+        [6580100, 674000],
+      ],
+    });
+    expect(polygon.source).toBe('polygon');
+    expect(polygon.area).toBeCloseTo(5_000);
+    expect(polygon.bbox).toEqual({ minX: 674000, minY: 6580000, maxX: 674100, maxY: 6580100 });
+  });
+
+  it('looks up designations only when the tool passes a lookup', async () => {
+    const kabo = {
+      beteckning: 'UPPSALA KÅBO 1:1',
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [0, 0],
+            [10, 0],
+            [0, 10],
+            [0, 0],
+          ],
+        ],
+      },
+    };
+    const found = await resolveArea({ designation: 'uppsala kåbo 1:1' }, async () => kabo as PropertyInfo);
+    expect(found).toMatchObject({ source: 'UPPSALA KÅBO 1:1', area: 50 });
+
+    await expect(resolveArea({ designation: 'UPPSALA KÅBO 1:1' }, async () => null)).rejects.toThrow(/not found/i);
+    await expect(resolveArea({}, async () => null)).rejects.toThrow(/designation/);
+    await expect(resolveArea({ designation: 'UPPSALA KÅBO 1:1' })).rejects.toThrow(/or a polygon as/);
+  });
+});
+
+describe('assertAreaWithin', () => {
+  it('rejects areas over the limit in km²', () => {
+    expect(() => assertAreaWithin(25_000_000, 25_000_000)).not.toThrow();
+    expect(() => assertAreaWithin(31_250_000, 25_000_000)).toThrow('Area is 31.3 km², the maximum is 25 km²');
+  });
+});
+
+describe('sourceTiles', () => {
+  it('keeps the tiles that were read', () => {
+    const item = (id: string, downloadUrl?: string) => ({ id, downloadUrl }) as StacSearchResultItem;
+    const items = [item('a', 'https://example.se/a.tif'), item('b', 'https://example.se/b.tif'), item('c')];
+    expect(sourceTiles({ items, usedSources: ['https://example.se/b.tif'] }).map((i) => i.id)).toEqual(['b']);
+  });
+});
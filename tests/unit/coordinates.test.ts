@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectCrs,
+  fromSweref99,
+  sweref99BboxToWgs84,
+  toSweref99,
+  toSweref99Polygon,
+  wgs84BboxToSweref99,
+  wgs84ToSweref99,
+} from '../../src/lib/coordinates';
+
+// Stockholm city hall
+const STOCKHOLM = { latitude: 59.3275, longitude: 18.0549 };
+
+describe('coordinate systems', () => {
+  it('detects WGS84, SWEREF99 TM and RT90 from value ranges', () => {
+    expect(detectCrs(59.33, 18.07)).toBe('EPSG:4326');
+    expect(detectCrs(6580000, 674000)).toBe('EPSG:3006');
+    expect(detectCrs(6580000, 1628000)).toBe('EPSG:3021');
+    expect(() => detectCrs(12, 34000)).toThrow(/inputCrs/);
+  });
+
+  it('round-trips through regional SWEREF99 zones and RT90', () => {
+    const reference = wgs84ToSweref99(STOCKHOLM);
+    for (const crs of ['EPSG:3011', 'EPSG:3021'] as const) {
+      const projected = fromSweref99(reference, crs) as { northing: number; easting: number };
+      const back = toSweref99(projected.northing, projected.easting, crs);
+      expect(Math.abs(back.x - reference.x)).toBeLessThan(0.05);
+      expect(Math.abs(back.y - reference.y)).toBeLessThan(0.05);
+    }
+  });
+
+  it('places zone 18 00 false easting at 150 km on its central meridian', () => {
+    const onMeridian = wgs84ToSweref99({ latitude: 59.3, longitude: 18 });
+    const projected = fromSweref99(onMeridian, 'EPSG:3011') as { northing: number; easting: number };
+    expect(projected.easting).toBeCloseTo(150000, 0);
+  });
+
+  it('reprojected bboxes contain the whole area far from the central meridian', () => {
+    // Around Kiruna/Haparanda, where the edges bend most under zone 33
+    const wgs84 = { minLat: 65.8, minLon: 20.5, maxLat: 68.2, maxLon: 23.9 };
+    const bbox = wgs84BboxToSweref99(wgs84);
+    for (let i = 0; i <= 20; i++) {
+      const longitude = wgs84.minLon + ((wgs84.maxLon - wgs84.minLon) * i) / 20;
+      for (const latitude of [wgs84.minLat, wgs84.maxLat]) {
+        const { x, y } = wgs84ToSweref99({ latitude, longitude });
+        expect(x).toBeGreaterThanOrEqual(bbox.minX);
+        expect(x).toBeLessThanOrEqual(bbox.maxX);
+        expect(y).toBeGreaterThanOrEqual(bbox.minY);
+        expect(y).toBeLessThanOrEqual(bbox.maxY);
+      }
+    }
+
+    // Meridians converge northwards, so the south-west corner alone cuts off the north-west of the area
+    const minCorner = wgs84ToSweref99({ latitude: wgs84.minLat, longitude: wgs84.minLon });
+    expect(minCorner.x - bbox.minX).toBeGreaterThan(1000);
+
+    const back = sweref99BboxToWgs84(bbox);
+    expect(back.minLat).toBeLessThanOrEqual(wgs84.minLat);
+    expect(back.maxLon).toBeGreaterThanOrEqual(wgs84.maxLon);
+  });
+
+  it('builds a closed SWEREF99 TM polygon from coordinate pairs', () => {
+    const polygon = toSweref99Polygon([
+      [59.33, 18.06],
+      [59.33, 18.08],
+      [59.34, 18.08],
+    ]);
+    const ring = polygon.coordinates[0] as number[][];
+    expect(ring).toHaveLength(4);
+    expect(ring[3]).toEqual(ring[0]);
+    expect(() => toSweref99Polygon([[59.33, 18.06]])).toThrow(/three/);
+  });
+});
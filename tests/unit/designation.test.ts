@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { designationInterpretations, parseDesignation, rankDesignations } from '../../src/lib/designation';
+import { ValidationError } from '../../src/lib/errors';
+
+const describeCandidate = (c: { beteckning: string; kommun: string }) => c;
+
+describe('parseDesignation', () => {
+  it('expands kommun abbreviations and moves a trailing kommun to the front', () => {
+    const parsed = parseDesignation('vasastaden 1:1 sthlm');
+    expect(parsed.normalized).toBe('STOCKHOLM VASASTADEN 1:1');
+    expect(designationInterpretations(parsed)).toEqual([
+      { kommun: 'STOCKHOLM', trakt: 'VASASTADEN', query: 'STOCKHOLM VASASTADEN 1:1' },
+    ]);
+  });
+
+  it('accepts a missing or alternative block separator', () => {
+    expect(parseDesignation('gbg  Inom Vallgraven 12 03').normalized).toBe('GÖTEBORG INOM VALLGRAVEN 12:3');
+    expect(parseDesignation('Uppsala Kåbo 1.1').normalized).toBe('UPPSALA KÅBO 1:1');
+    expect(parseDesignation('Lidingö Bo s:5').normalized).toBe('LIDINGÖ BO S:5');
+  });
+
+  it('reads leading words both as kommun and as part of the trakt', () => {
+    const readings = designationInterpretations(parseDesignation('stora hästholmen 2:4'));
+    expect(readings.map((r) => r.query)).toEqual(['STORA HÄSTHOLMEN 2:4', 'STORA HÄSTHOLMEN 2:4']);
+    expect(readings.map((r) => r.kommun)).toEqual(['STORA', undefined]);
+  });
+
+  it('rejects input without block and unit numbers or without a name', () => {
+    expect(() => parseDesignation('Vasastaden')).toThrow(ValidationError);
+    expect(() => parseDesignation('1:1')).toThrow(ValidationError);
+  });
+});
+
+describe('rankDesignations', () => {
+  it('ranks the exact match first and explains the others', () => {
+    const ranked = rankDesignations(
+      parseDesignation('vasastaden 1:1 sthlm'),
+      [
+        { beteckning: 'STOCKHOLM VASASTADEN 1:2', kommun: 'STOCKHOLM' },
+        { beteckning: 'STOCKHOLM VASASTADEN 1:1', kommun: 'STOCKHOLM' },
+        { beteckning: 'SOLNA VASASTADEN 1:1', kommun: 'SOLNA' },
+      ],
+      describeCandidate,
+    );
+    expect(ranked.map((r) => r.item.beteckning)).toEqual([
+      'STOCKHOLM VASASTADEN 1:1',
+      'SOLNA VASASTADEN 1:1',
+      'STOCKHOLM VASASTADEN 1:2',
+    ]);
+    expect(ranked[0].score).toBe(1);
+    expect(ranked[1].reasons).toContain('kommun differs (SOLNA)');
+  });
+
+  it('ties equally named parcels when the kommun is left out', () => {
+    const ranked = rankDesignations(
+      parseDesignation('Berga 3:7'),
+      [
+        { beteckning: 'LINKÖPING BERGA 3:7', kommun: 'LINKÖPING' },
+        { beteckning: 'UPPSALA BERGA 3:7', kommun: 'UPPSALA' },
+      ],
+      describeCandidate,
+    );
+    expect(ranked[0].score).toBe(ranked[1].score);
+    expect(ranked[0].reasons).toContain('no kommun given');
+  });
+
+  it('tolerates misspelt and unaccented trakt names', () => {
+    const [best] = rankDesignations(
+      parseDesignation('vasteras framnas 2:1'),
+      [{ beteckning: 'VÄSTERÅS FRAMNÄS 2:1', kommun: 'VÄSTERÅS' }],
+      describeCandidate,
+    );
+    expect(best.score).toBe(1);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { closestPoints, sharedBoundaryLength } from '../../src/lib/geometry';
+import type { GeoJsonGeometry } from '../../src/types/lantmateriet';
+
+const lake: GeoJsonGeometry = {
+  type: 'Polygon',
+  coordinates: [
+    [
+      [100, 0],
+      [200, 0],
+      [200, 100],
+      [100, 100],
+      [100, 0],
+    ],
+  ],
+};
+
+describe('closestPoints', () => {
+  it('measures from a point to the nearest shoreline', () => {
+    const result = closestPoints({ type: 'Point', coordinates: [40, 50] }, lake);
+    expect(result.distance).toBeCloseTo(60);
+    expect(result.to).toEqual([100, 50]);
+  });
+
+  it('is zero for a point in the water', () => {
+    expect(closestPoints({ type: 'Point', coordinates: [150, 50] }, lake).distance).toBe(0);
+  });
+
+  it('is zero for crossing geometries without vertices inside each other', () => {
+    const stream: GeoJsonGeometry = {
+      type: 'LineString',
+      coordinates: [
+        [150, -50],
+        [150, 150],
+      ],
+    };
+    expect(closestPoints(stream, lake).distance).toBe(0);
+  });
+
+  it('measures between a parcel edge and a watercourse', () => {
+    const parcel: GeoJsonGeometry = {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [50, 0],
+          [50, 50],
+          [0, 50],
+          [0, 0],
+        ],
+      ],
+    };
+    const stream: GeoJsonGeometry = {
+      type: 'LineString',
+      coordinates: [
+        [80, -100],
+        [80, 100],
+      ],
+    };
+    expect(closestPoints(parcel, stream).distance).toBeCloseTo(30);
+  });
+
+  it('finds the nearest shore of a large many-vertex lake', () => {
+    // 20 000-vertex circle of radius 1000 m around the origin, and a parcel due east of it
+    const shore = Array.from({ length: 20_001 }, (_, i) => {
+      const angle = (2 * Math.PI * i) / 20_000;
+      return [1000 * Math.cos(angle), 1000 * Math.sin(angle)];
+    });
+    const bigLake: GeoJsonGeometry = { type: 'Polygon', coordinates: [shore] };
+
+    const result = closestPoints(rectangle(1100, -20, 1200, 20), bigLake);
+    expect(result.distance).toBeCloseTo(100, 1);
+    expect(result.to[0]).toBeCloseTo(1000, 1);
+  });
+});
+
+function rectangle(minX: number, minY: number, maxX: number, maxY: number): GeoJsonGeometry {
+  return {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [minX, minY],
+        [maxX, minY],
+        [maxX, maxY],
+        [minX, maxY],
+        [minX, minY],
+      ],
+    ],
+  };
+}
+
+describe('sharedBoundaryLength', () => {
+  it('measures the overlap of a partly shared edge', () => {
+    // b shares x=100 from y=20 to y=100 with a, and its vertices are not on a's corners
+    expect(sharedBoundaryLength(rectangle(0, 0, 100, 100), rectangle(100, 20, 150, 180))).toBeCloseTo(80);
+  });
+
+  it('tolerates small survey offsets', () => {
+    expect(sharedBoundaryLength(rectangle(0, 0, 100, 100), rectangle(100.3, 0, 200, 100))).toBeCloseTo(100);
+    expect(sharedBoundaryLength(rectangle(0, 0, 100, 100), rectangle(101, 0, 200, 100))).toBe(0);
+  });
+
+  it('is zero for parcels touching only at a corner', () => {
+    expect(sharedBoundaryLength(rectangle(0, 0, 100, 100), rectangle(100, 100, 200, 200))).toBe(0);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { landCoverBreakdown, landCoverCategory } from '../../src/lib/land-cover';
+import { createGrid } from '../../src/lib/raster';
+import { createMask } from '../../src/lib/terrain';
+import type { GeoJsonGeometry } from '../../src/types/lantmateriet';
+
+function square(minX: number, minY: number, size: number, hole?: number[][]): GeoJsonGeometry {
+  const outer = [
+    [minX, minY],
+    [minX + size, minY],
+    [minX + size, minY + size],
+    [minX, minY + size],
+    [minX, minY],
+  ];
+  return { type: 'Polygon', coordinates: hole ? [outer, hole] : [outer] };
+}
+
+describe('landCoverCategory', () => {
+  it('groups Marktäcke classes', () => {
+    expect(landCoverCategory('Barr- och blandskog')).toBe('forest');
+    expect(landCoverCategory('Sankmark, våt')).toBe('wetland');
+    expect(landCoverCategory('Åker')).toBe('arable');
+    expect(landCoverCategory('Bebyggelse, låg')).toBe('built_up');
+    expect(landCoverCategory('Vattendragsyta')).toBe('water');
+    expect(landCoverCategory('Kalfjäll')).toBe('open_land');
+    expect(landCoverCategory('Ej karterat område')).toBe('other');
+  });
+});
+
+describe('landCoverBreakdown', () => {
+  it('measures class areas inside the query area, respecting holes', () => {
+    const grid = createGrid({ minX: 0, minY: 0, maxX: 100, maxY: 100 }, 1, 0);
+    const lake = [
+      [20, 20],
+      [40, 20],
+      [40, 40],
+      [20, 40],
+      [20, 20],
+    ];
+    const features = [
+      { objekttyp: 'Barr- och blandskog', geometry: square(0, 0, 100, lake) },
+      { objekttyp: 'Sjö', geometry: square(20, 20, 20) },
+    ];
+
+    // Query area is the left half
+    const breakdown = landCoverBreakdown(grid, createMask(grid, square(0, 0, 50)), features);
+
+    expect(breakdown.cellCount).toBe(2500);
+    expect(breakdown.classes).toEqual([
+      { objekttyp: 'Barr- och blandskog', category: 'forest', cellCount: 2100 },
+      { objekttyp: 'Sjö', category: 'water', cellCount: 400 },
+    ]);
+    expect(breakdown.unclassifiedCellCount).toBe(0);
+  });
+});
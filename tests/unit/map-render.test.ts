@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { composeMap } from '../../src/lib/map-render';
+
+const BBOX = { minX: 674000, minY: 6580000, maxX: 674200, maxY: 6580200 };
+
+async function whiteImage(width: number, height: number) {
+  const png = await sharp({ create: { width, height, channels: 4, background: '#ffffff' } })
+    .png()
+    .toBuffer();
+  return { png, width, height };
+}
+
+async function pixelAt(png: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(png).raw().toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * info.channels;
+  return Array.from(data.subarray(offset, offset + 3));
+}
+
+describe('composeMap', () => {
+  it('draws markers and polygons at their map position', async () => {
+    const base = await whiteImage(200, 200);
+    const result = await composeMap(base, BBOX, {
+      geometries: [
+        { type: 'Point', coordinates: [674050, 6580150] }, // Pixel (50, 50)
+        {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [674100, 6580000],
+              [674200, 6580000],
+              [674200, 6580100],
+              [674100, 6580100],
+              [674100, 6580000],
+            ],
+          ],
+        },
+      ],
+    });
+
+    expect(result.width).toBe(200);
+    const [r, g, b] = await pixelAt(result.png, 50, 50);
+    expect(r).toBeGreaterThan(200);
+    expect(g).toBeLessThan(120);
+    expect(b).toBeLessThan(120);
+
+    // Polygon interior is tinted, not opaque
+    const [, fillGreen] = await pixelAt(result.png, 150, 140);
+    expect(fillGreen).toBeLessThan(250);
+    expect(fillGreen).toBeGreaterThan(150);
+
+    // Untouched area stays white
+    expect(await pixelAt(result.png, 20, 150)).toEqual([255, 255, 255]);
+  });
+
+  it('layers images on top of the base map', async () => {
+    const base = await whiteImage(100, 100);
+    const layer = await sharp({ create: { width: 50, height: 50, channels: 4, background: '#0000ff' } })
+      .png()
+      .toBuffer();
+    const result = await composeMap(base, BBOX, { layers: [layer] });
+
+    // Layers are stretched to the map size
+    expect(await pixelAt(result.png, 80, 20)).toEqual([0, 0, 255]);
+  });
+});
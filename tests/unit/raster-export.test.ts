@@ -0,0 +1,91 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fromArrayBuffer } from 'geotiff';
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { clipGridToGeometry, createGrid } from '../../src/lib/raster';
+import { bboxPolygon } from '../../src/lib/geometry';
+
+type RasterExport = typeof import('../../src/lib/raster-export');
+let rasterExport: RasterExport;
+let dir: string;
+const originalDir = process.env.RASTER_EXPORT_DIR;
+
+beforeAll(async () => {
+  // The export directory is read at import time
+  dir = mkdtempSync(join(tmpdir(), 'raster-export-test-'));
+  process.env.RASTER_EXPORT_DIR = dir;
+  rasterExport = await import('../../src/lib/raster-export');
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+  if (originalDir === undefined) delete process.env.RASTER_EXPORT_DIR;
+  else process.env.RASTER_EXPORT_DIR = originalDir;
+});
+
+// 4 x 2 cells of 1 m with heights 0..7 and one no-data cell
+function demGrid() {
+  const grid = createGrid({ minX: 674000, minY: 6580000, maxX: 674004, maxY: 6580002 }, 1);
+  grid.bands[0].set([0, 1, 2, 3, 4, 5, 6, NaN]);
+  return grid;
+}
+
+describe('encodeGeoTiff', () => {
+  it('writes a SWEREF99 TM GeoTIFF with no-data', async () => {
+    const tiff = await fromArrayBuffer(new Uint8Array(rasterExport.encodeGeoTiff(demGrid(), 'float32')).buffer);
+    const image = await tiff.getImage();
+
+    expect(image.getBoundingBox()).toEqual([674000, 6580000, 674004, 6580002]);
+    expect(image.getGeoKeys()?.ProjectedCSTypeGeoKey).toBe(3006);
+    expect(image.getGDALNoData()).toBe(-9999);
+    const [band] = (await image.readRasters()) as unknown as Float32Array[];
+    expect(Array.from(band)).toEqual([0, 1, 2, 3, 4, 5, 6, -9999]);
+  });
+
+  it('keeps black 8-bit pixels distinct from no-data', async () => {
+    const grid = createGrid({ minX: 674000, minY: 6580000, maxX: 674002, maxY: 6580001 }, 1, 3);
+    grid.bands.forEach((band) => band.set([0, NaN]));
+    const image = await (await fromArrayBuffer(new Uint8Array(rasterExport.encodeGeoTiff(grid, 'uint8')).buffer)).getImage();
+
+    expect(image.getSamplesPerPixel()).toBe(3);
+    const bands = (await image.readRasters()) as unknown as Uint8Array[];
+    expect(bands.map((band) => Array.from(band))).toEqual([
+      [1, 0],
+      [1, 0],
+      [1, 0],
+    ]);
+  });
+});
+
+describe('clipGridToGeometry', () => {
+  it('sets cells outside the polygon to no-data', () => {
+    const grid = demGrid();
+    clipGridToGeometry(grid, bboxPolygon({ minX: 674000, minY: 6580000, maxX: 674002, maxY: 6580002 }));
+    expect(Array.from(grid.bands[0]).map((v) => (Number.isNaN(v) ? null : v))).toEqual([0, 1, null, null, 4, 5, null, null]);
+  });
+});
+
+describe('exports', () => {
+  it('renders a stretched, transparent-where-empty preview', async () => {
+    const png = await rasterExport.encodePreviewPng(demGrid());
+    const { data, info } = await sharp(png).raw().toBuffer({ resolveWithObject: true });
+
+    expect([info.width, info.height, info.channels]).toEqual([4, 2, 4]);
+    expect(data[0]).toBe(0);
+    expect(data[6 * 4]).toBe(255);
+    expect(data[7 * 4 + 3]).toBe(0);
+  });
+
+  it('stores files and reads them back by name only', async () => {
+    const stored = await rasterExport.storeExport(Buffer.from('tiff-bytes'), 'geotiff', 'hojd');
+    expect(stored.fileName).toMatch(/^hojd-[\w-]+\.tif$/);
+
+    const read = await rasterExport.readExport(stored.fileName);
+    expect(read?.body.toString()).toBe('tiff-bytes');
+    expect(read?.contentType).toBe('image/tiff');
+    expect(await rasterExport.readExport('../etc/passwd')).toBeNull();
+    expect(await rasterExport.readExport('hojd-missing.tif')).toBeNull();
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { distanceToLine } from '../../src/lib/geometry';
+import { intersectionArea } from '../../src/lib/raster';
+import type { GeoJsonGeometry } from '../../src/types/lantmateriet';
+
+const parcel: GeoJsonGeometry = {
+  type: 'Polygon',
+  coordinates: [
+    [
+      [0, 0],
+      [100, 0],
+      [100, 50],
+      [0, 50],
+      [0, 0],
+    ],
+  ],
+};
+
+describe('intersectionArea', () => {
+  it('returns the exact area for a parcel entirely inside', () => {
+    expect(intersectionArea(parcel, () => true)).toBe(5000);
+  });
+
+  it('measures the part of a parcel inside a corridor', () => {
+    // 20 m each side of a vertical route through x = 50 covers 40 x 50 m of the parcel
+    const route = [
+      [50, -100],
+      [50, 200],
+    ];
+    const area = intersectionArea(parcel, (position) => distanceToLine(position, route) <= 20);
+    expect(area).toBeGreaterThan(1950);
+    expect(area).toBeLessThan(2050);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildStacDatetime,
+  buildStacFilter,
+  coveragePercent,
+  decodeStacCursor,
+  describeStacAssets,
+  encodeStacCursor,
+  parseSortBy,
+  stacFootprint,
+} from '../../src/lib/stac';
+import { bboxPolygon } from '../../src/lib/geometry';
+import type { StacItem } from '../../src/types/lantmateriet';
+import { ValidationError } from '../../src/lib/errors';
+
+const STAC_URL = 'https://api.lantmateriet.se/stac-orto/v1';
+
+describe('buildStacDatetime', () => {
+  it('expands dates to whole days and leaves missing ends open', () => {
+    expect(buildStacDatetime('2023-01-01', '2023-12-31')).toBe('2023-01-01T00:00:00Z/2023-12-31T23:59:59Z');
+    expect(buildStacDatetime('2023-06-01')).toBe('2023-06-01T00:00:00Z/..');
+    expect(buildStacDatetime(undefined, '2020-01-01T12:00:00Z')).toBe('../2020-01-01T12:00:00Z');
+    expect(buildStacDatetime()).toBeUndefined();
+  });
+
+  it('rejects invalid and reversed dates', () => {
+    expect(() => buildStacDatetime('last year')).toThrow(ValidationError);
+    expect(() => buildStacDatetime('2024-01-01', '2023-01-01')).toThrow(/before endDate/);
+  });
+});
+
+describe('buildStacFilter', () => {
+  it('combines resolution, cloud cover and a custom expression', () => {
+    expect(buildStacFilter({ maxResolution: 0.5, maxCloudCover: 10, filter: 'gsd < 1 OR gsd IS NULL' })).toBe(
+      'resolution <= 0.5 AND "eo:cloud_cover" <= 10 AND (gsd < 1 OR gsd IS NULL)',
+    );
+    expect(buildStacFilter({})).toBeUndefined();
+  });
+});
+
+describe('parseSortBy', () => {
+  it('reads direction prefixes and qualifies item properties', () => {
+    expect(parseSortBy(['-datetime', '+resolution', 'id'])).toEqual([
+      { field: 'properties.datetime', direction: 'desc' },
+      { field: 'properties.resolution', direction: 'asc' },
+      { field: 'id', direction: 'asc' },
+    ]);
+    expect(() => parseSortBy(['datetime; drop'])).toThrow(ValidationError);
+  });
+});
+
+describe('STAC cursors', () => {
+  it('round-trips the next link', () => {
+    const link = { rel: 'next', href: `${STAC_URL}/search`, method: 'POST' as const, body: { token: 'abc' }, merge: true };
+    expect(decodeStacCursor(encodeStacCursor(link), STAC_URL)).toEqual(link);
+  });
+
+  it('rejects cursors pointing outside the catalog', () => {
+    const foreign = encodeStacCursor({ rel: 'next', href: 'https://example.com/search' });
+    const escaping = encodeStacCursor({ rel: 'next', href: `${STAC_URL}/../../other/search` });
+    expect(() => decodeStacCursor(foreign, STAC_URL)).toThrow(/does not belong/);
+    expect(() => decodeStacCursor(escaping, STAC_URL)).toThrow(/does not belong/);
+    expect(() => decodeStacCursor('not a cursor', STAC_URL)).toThrow(/not valid/);
+  });
+});
+
+const rectangle = (minX: number, minY: number, maxX: number, maxY: number) => bboxPolygon({ minX, minY, maxX, maxY });
+
+describe('STAC item details', () => {
+  const item: StacItem = {
+    id: 'tile-1',
+    type: 'Feature',
+    stac_version: '1.0.0',
+    geometry: rectangle(674000, 6580000, 674500, 6581000),
+    bbox: [674000, 6580000, 674500, 6581000],
+    properties: { datetime: '2023-06-01T00:00:00Z' },
+    assets: {
+      data: { 'href': 'https://example.se/tile-1.tif', 'type': 'image/tiff', 'roles': ['data'], 'file:size': 1024 },
+      thumbnail: { href: 'https://example.se/tile-1.jpg' },
+    },
+    links: [],
+  };
+
+  it('lists every asset with type, roles and size', () => {
+    expect(describeStacAssets(item)).toEqual([
+      {
+        key: 'data',
+        href: 'https://example.se/tile-1.tif',
+        type: 'image/tiff',
+        title: null,
+        roles: ['data'],
+        size_bytes: 1024,
+        bands: undefined,
+      },
+      {
+        key: 'thumbnail',
+        href: 'https://example.se/tile-1.jpg',
+        type: null,
+        title: null,
+        roles: [],
+        size_bytes: null,
+        bands: undefined,
+      },
+    ]);
+  });
+
+  it('measures how much of the search area the footprints cover', () => {
+    const area = rectangle(674000, 6580000, 675000, 6581000);
+    const footprint = stacFootprint(item)!;
+    expect(coveragePercent(area, [footprint])).toBeCloseTo(50, 0);
+    expect(coveragePercent(area, [footprint, rectangle(674500, 6580000, 675000, 6581000)])).toBeCloseTo(100, 0);
+    expect(coveragePercent(area, [])).toBe(0);
+  });
+
+  it('reads WGS84 footprints', () => {
+    const wgs84: StacItem = { ...item, geometry: { type: 'Point', coordinates: [18.07, 59.33] } };
+    const [x, y] = stacFootprint(wgs84)!.coordinates as number[];
+    expect(x).toBeGreaterThan(600000);
+    expect(y).toBeGreaterThan(6500000);
+  });
+});
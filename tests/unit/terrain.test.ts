@@ -0,0 +1,122 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { writeArrayBuffer } from 'geotiff';
+import { readMosaic } from '../../src/lib/raster';
+import { createMask, elevationStatistics, floodExposure } from '../../src/lib/terrain';
+
+// 100 x 100 m plane at 1 m resolution rising 0.1 m per meter eastwards: slope atan(0.1), facing west
+const ORIGIN_X = 674000;
+const ORIGIN_Y = 6580100;
+const SIZE = 100;
+
+let dir: string;
+let fixture: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'terrain-'));
+  fixture = join(dir, 'plane.tif');
+
+  const values = new Float32Array(SIZE * SIZE);
+  for (let row = 0; row < SIZE; row++) {
+    for (let col = 0; col < SIZE; col++) {
+      values[row * SIZE + col] = 10 + (col + 0.5) * 0.1;
+    }
+  }
+
+  const buffer = writeArrayBuffer(values, {
+    width: SIZE,
+    height: SIZE,
+    BitsPerSample: [32],
+    SampleFormat: [3],
+    ModelPixelScale: [1, 1, 0],
+    ModelTiepoint: [0, 0, 0, ORIGIN_X, ORIGIN_Y, 0],
+    ProjectedCSTypeGeoKey: 3006,
+    GTModelTypeGeoKey: 1,
+  });
+  writeFileSync(fixture, Buffer.from(buffer));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('elevation statistics from a local GeoTIFF', () => {
+  it('reads a window and computes height, slope and aspect', async () => {
+    const bbox = { minX: ORIGIN_X + 20, minY: ORIGIN_Y - 80, maxX: ORIGIN_X + 80, maxY: ORIGIN_Y - 20 };
+    const grid = await readMosaic([fixture], bbox, 1);
+
+    expect(grid.usedSources).toEqual([fixture]);
+    expect(grid.width).toBe(60);
+    expect(grid.height).toBe(60);
+
+    const stats = elevationStatistics(grid, createMask(grid), 6);
+    expect(stats).not.toBeNull();
+    expect(stats!.cellCount).toBe(3600);
+    expect(stats!.min).toBeCloseTo(12.05, 3);
+    expect(stats!.max).toBeCloseTo(17.95, 3);
+    expect(stats!.mean).toBeCloseTo(15, 3);
+    expect(stats!.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(3600);
+    expect(stats!.meanSlopeDegrees).toBeCloseTo((Math.atan(0.1) * 180) / Math.PI, 3);
+    expect(stats!.dominantAspect).toBe('W');
+  });
+
+  it('leaves cells outside the raster as no-data', async () => {
+    const bbox = { minX: ORIGIN_X + 50, minY: ORIGIN_Y - 50, maxX: ORIGIN_X + 150, maxY: ORIGIN_Y };
+    const grid = await readMosaic([fixture], bbox, 1);
+
+    const stats = elevationStatistics(grid, createMask(grid));
+    expect(stats!.cellCount).toBe(50 * 50);
+  });
+
+  it('masks cells to a polygon', async () => {
+    const bbox = { minX: ORIGIN_X, minY: ORIGIN_Y - SIZE, maxX: ORIGIN_X + SIZE, maxY: ORIGIN_Y };
+    const grid = await readMosaic([fixture], bbox, 1);
+    const westHalf = {
+      type: 'Polygon' as const,
+      coordinates: [
+        [
+          [ORIGIN_X, ORIGIN_Y - SIZE],
+          [ORIGIN_X + 50, ORIGIN_Y - SIZE],
+          [ORIGIN_X + 50, ORIGIN_Y],
+          [ORIGIN_X, ORIGIN_Y],
+          [ORIGIN_X, ORIGIN_Y - SIZE],
+        ],
+      ],
+    };
+
+    const stats = elevationStatistics(grid, createMask(grid, westHalf));
+    expect(stats!.cellCount).toBe(50 * SIZE);
+    expect(stats!.max).toBeCloseTo(14.95, 3);
+  });
+
+  it('finds the cells below a water level', async () => {
+    const bbox = { minX: ORIGIN_X, minY: ORIGIN_Y - SIZE, maxX: ORIGIN_X + SIZE, maxY: ORIGIN_Y };
+    const grid = await readMosaic([fixture], bbox, 1);
+
+    // Heights run from 10.05 in the west; the 20 westernmost columns lie below 12 m
+    const exposure = floodExposure(grid, createMask(grid), 12);
+    expect(exposure.cellCount).toBe(SIZE * SIZE);
+    expect(exposure.belowCount).toBe(20 * SIZE);
+    expect(exposure.maxDepth).toBeCloseTo(1.95, 3);
+    expect(exposure.meanDepth).toBeCloseTo(1, 3);
+    expect(exposure.below[19]).toBe(1);
+    expect(exposure.below[20]).toBe(0);
+    expect(floodExposure(grid, createMask(grid), 5).belowCount).toBe(0);
+  });
+
+  it('counts no-data cells in the mask as not below the level', async () => {
+    const bbox = { minX: ORIGIN_X, minY: ORIGIN_Y - SIZE, maxX: ORIGIN_X + SIZE, maxY: ORIGIN_Y };
+    const grid = await readMosaic([fixture], bbox, 1);
+    // A lake over the 10 westernmost columns has no height data
+    for (let row = 0; row < SIZE; row++) grid.bands[0].fill(NaN, row * SIZE, row * SIZE + 10);
+
+    const exposure = floodExposure(grid, createMask(grid), 12);
+    expect(exposure.maskCount).toBe(SIZE * SIZE);
+    expect(exposure.cellCount).toBe(90 * SIZE);
+    expect(exposure.belowCount).toBe(10 * SIZE);
+    // 10 % of the whole area lies below 12 m, not 10/90 of it
+    expect(exposure.belowCount / exposure.maskCount).toBeCloseTo(0.1, 6);
+  });
+});
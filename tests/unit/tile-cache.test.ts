@@ -0,0 +1,61 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+type TileCache = typeof import('../../src/lib/tile-cache');
+let cache: TileCache;
+let dir: string;
+const originalDir = process.env.TILE_CACHE_DIR;
+
+beforeAll(async () => {
+  // The cache directory is read at import time
+  dir = mkdtempSync(join(tmpdir(), 'tile-cache-test-'));
+  process.env.TILE_CACHE_DIR = dir;
+  cache = await import('../../src/lib/tile-cache');
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  rmSync(dir, { recursive: true, force: true });
+  if (originalDir === undefined) delete process.env.TILE_CACHE_DIR;
+  else process.env.TILE_CACHE_DIR = originalDir;
+});
+
+describe('tile cache', () => {
+  it('returns stored tiles with a content-based ETag', async () => {
+    const body = Buffer.from('tile-bytes');
+    const stored = await cache.putCachedTile('https://example.test/a.png', body, 'image/png');
+    expect(stored.etag).toBe(cache.tileEtag(Buffer.from('tile-bytes')));
+
+    const hit = await cache.getCachedTile('https://example.test/a.png');
+    expect(hit?.body.toString()).toBe('tile-bytes');
+    expect(hit?.etag).toBe(stored.etag);
+  });
+
+  it('falls back to disk when the memory cache is empty', async () => {
+    await cache.putCachedTile('https://example.test/b.png', Buffer.from('disk-tile'), 'image/png');
+    cache.clearTileMemoryCache();
+
+    const hit = await cache.getCachedTile('https://example.test/b.png');
+    expect(hit?.body.toString()).toBe('disk-tile');
+    expect(hit?.contentType).toBe('image/png');
+  });
+
+  it('misses for unknown tiles', async () => {
+    expect(await cache.getCachedTile('https://example.test/missing.png')).toBeNull();
+  });
+
+  it('sweeps expired tiles from disk but leaves other files alone', async () => {
+    await cache.putCachedTile('https://example.test/c.png', Buffer.from('old-tile'), 'image/png');
+    writeFileSync(join(dir, 'notes.txt'), 'not a tile');
+
+    // Two days on, every tile written so far has expired
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 2 * cache.TILE_TTL_MS);
+    await cache.putCachedTile('https://example.test/d.png', Buffer.from('new-tile'), 'image/png');
+
+    expect(readdirSync(dir).filter((name) => name.endsWith('.bin'))).toHaveLength(1);
+    expect(existsSync(join(dir, 'notes.txt'))).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { bandLayout, classifyNdvi, computeIndex, indexStatistics } from '../../src/lib/vegetation';
+import { encodeColorMappedPng } from '../../src/lib/raster-export';
+import sharp from 'sharp';
+
+const bands = (red: number[], green: number[], nir: number[]) => ({
+  red: new Float32Array(red),
+  green: new Float32Array(green),
+  nir: new Float32Array(nir),
+});
+
+describe('bandLayout', () => {
+  it('finds bands by common name and falls back to red, green, blue, NIR for four unnamed bands', () => {
+    expect(bandLayout(['nir', 'red', 'green'])).toEqual({ red: 1, green: 2, nir: 0 });
+    expect(bandLayout(['b1', 'b2', 'b3', 'b4'])).toEqual({ red: 0, green: 1, nir: 3 });
+    expect(bandLayout(['red', 'green', 'blue'])).toBeNull();
+    expect(bandLayout(undefined)).toBeNull();
+    expect(bandLayout([])).toBeNull();
+  });
+});
+
+describe('computeIndex', () => {
+  it('computes normalized differences with no-data where both bands are empty', () => {
+    const input = bands([50, 100, 0, NaN], [60, 100, 0, 10], [150, 100, 0, 10]);
+    const ndvi = Array.from(computeIndex('ndvi', input));
+    expect(ndvi[0]).toBeCloseTo(0.5);
+    expect(ndvi[1]).toBe(0);
+    expect(ndvi.slice(2).every(Number.isNaN)).toBe(true);
+    expect(computeIndex('ndwi', input)[0]).toBeCloseTo(-90 / 210);
+  });
+
+  it('scales SAVI from 8-bit values', () => {
+    const savi = computeIndex('savi', bands([51], [0], [153]));
+    expect(savi[0]).toBeCloseTo(((0.6 - 0.2) / (0.6 + 0.2 + 0.5)) * 1.5);
+  });
+});
+
+describe('index statistics and classes', () => {
+  const ndvi = new Float32Array([-0.3, 0.1, 0.3, 0.6, 0.7, NaN]);
+  const mask = new Uint8Array([1, 1, 1, 1, 0, 1]);
+
+  it('summarises the cells inside the mask', () => {
+    const stats = indexStatistics(ndvi, mask)!;
+    expect(stats.cellCount).toBe(4);
+    expect(stats.min).toBeCloseTo(-0.3);
+    expect(stats.max).toBeCloseTo(0.6);
+    expect(stats.mean).toBeCloseTo(0.175);
+    expect(indexStatistics(ndvi, new Uint8Array(6))).toBeNull();
+  });
+
+  it('counts cells per NDVI class', () => {
+    expect(classifyNdvi(ndvi, mask)).toEqual([1, 1, 1, 1]);
+  });
+
+  it('colours values through the ramp with transparent no-data', async () => {
+    const png = await encodeColorMappedPng(new Float32Array([0, NaN]), 2, 1, [
+      [0, [0, 0, 0]],
+      [1, [255, 255, 255]],
+    ]);
+    const { data } = await sharp(png).raw().toBuffer({ resolveWithObject: true });
+    expect(Array.from(data)).toEqual([0, 0, 0, 255, 0, 0, 0, 0]);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { createGrid, vectorizeMask } from '../../src/lib/raster';
+import { geometryArea } from '../../src/lib/geometry';
+import { curvatureDrop, lineOfSight, viewshed } from '../../src/lib/visibility';
+
+// Flat 100 x 100 m ground at 10 m with a 30 m high wall along column 60
+function ridgeGrid() {
+  const grid = createGrid({ minX: 674000, minY: 6580000, maxX: 674100, maxY: 6580100 }, 1);
+  grid.bands[0].fill(10);
+  for (let row = 0; row < grid.height; row++) grid.bands[0][row * grid.width + 60] = 30;
+  return grid;
+}
+
+describe('vectorizeMask', () => {
+  it('outlines set cells as a polygon with holes', () => {
+    const grid = createGrid({ minX: 0, minY: 0, maxX: 4, maxY: 4 }, 1);
+    // A 4 x 4 block with the two middle cells of the second row cleared
+    const mask = new Uint8Array(16).fill(1);
+    mask[5] = 0;
+    mask[6] = 0;
+
+    const geometry = vectorizeMask(grid, mask)!;
+    expect(geometry.type).toBe('Polygon');
+    const rings = geometry.coordinates as number[][][];
+    expect(rings).toHaveLength(2);
+    expect(rings[0]).toHaveLength(5);
+    expect(geometryArea(geometry)).toBe(14);
+  });
+
+  it('returns separate polygons for disjoint cells and null for an empty mask', () => {
+    const grid = createGrid({ minX: 0, minY: 0, maxX: 3, maxY: 1 }, 1);
+    expect(vectorizeMask(grid, new Uint8Array([1, 0, 1]))?.type).toBe('MultiPolygon');
+    expect(vectorizeMask(grid, new Uint8Array(3))).toBeNull();
+  });
+});
+
+describe('lineOfSight', () => {
+  it('reports the first obstruction behind a ridge', () => {
+    const result = lineOfSight(ridgeGrid(), [674010.5, 6580050.5], [674090.5, 6580050.5], 1.7, 0)!;
+    expect(result.visible).toBe(false);
+    expect(result.obstruction?.position[0]).toBeGreaterThanOrEqual(674060);
+    expect(result.obstruction?.position[0]).toBeLessThan(674061);
+    expect(result.minClearance!.clearance).toBeLessThan(-15);
+  });
+
+  it('sees over the ridge from a mast', () => {
+    const result = lineOfSight(ridgeGrid(), [674010.5, 6580050.5], [674090.5, 6580050.5], 60, 10)!;
+    expect(result.visible).toBe(true);
+    expect(result.obstruction).toBeNull();
+  });
+
+  it('returns null outside the data', () => {
+    expect(lineOfSight(ridgeGrid(), [673000, 6580050], [674050, 6580050], 2, 0)).toBeNull();
+  });
+});
+
+describe('viewshed', () => {
+  it('hides the ground behind a wall', () => {
+    const grid = ridgeGrid();
+    const result = viewshed(grid, [674030.5, 6580050.5], 1.7, 0, 25)!;
+    // Only the 25 m circle in front of the wall counts, so everything analysed is visible
+    expect(result.visibleCells).toBe(result.analysedCells);
+
+    const behind = viewshed(grid, [674050.5, 6580050.5], 1.7, 0, 40)!;
+    const visibleAt = (col: number) => behind.visible[50 * grid.width + col];
+    expect(visibleAt(55)).toBe(1);
+    expect(visibleAt(60)).toBe(1);
+    expect(visibleAt(70)).toBe(0);
+    expect(behind.visibleCells).toBeLessThan(behind.analysedCells);
+  });
+
+  it('drops distant ground below the horizon', () => {
+    expect(curvatureDrop(10_000)).toBeCloseTo(6.83, 1);
+  });
+});
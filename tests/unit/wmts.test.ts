@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { chooseZoom, rangeBbox, tileCount, tileRange, tileResolution, tilesInRange } from '../../src/lib/wmts';
+import { stitchTiles } from '../../src/lib/map-render';
+
+// 1 km around central Stockholm in SWEREF99 TM
+const BBOX = { minX: 673500, minY: 6579500, maxX: 674500, maxY: 6580500 };
+
+describe('3006 tile matrix set', () => {
+  it('halves the resolution per level', () => {
+    expect(tileResolution(0)).toBe(4096);
+    expect(tileResolution(9)).toBe(8);
+    expect(tileResolution(13)).toBe(0.5);
+  });
+
+  it('finds the tiles covering a bbox', () => {
+    // Level 9: 8 m/px, 2048 m per tile, origin (-1200000, 8500000)
+    const range = tileRange(BBOX, 9);
+    expect(range).toEqual({ zoom: 9, minCol: 914, maxCol: 915, minRow: 937, maxRow: 937 });
+    expect(tileCount(range)).toBe(2);
+    expect(tilesInRange(range)).toEqual([
+      { zoom: 9, row: 937, col: 914 },
+      { zoom: 9, row: 937, col: 915 },
+    ]);
+
+    const extent = rangeBbox(range);
+    expect(extent.minX).toBeLessThanOrEqual(BBOX.minX);
+    expect(extent.maxX).toBeGreaterThanOrEqual(BBOX.maxX);
+    expect(extent.minY).toBeLessThanOrEqual(BBOX.minY);
+    expect(extent.maxY).toBeGreaterThanOrEqual(BBOX.maxY);
+  });
+
+  it('does not pull in a neighbour tile for an edge on a tile boundary', () => {
+    const span = 256 * tileResolution(10);
+    const minX = -1200000 + 900 * span;
+    const range = tileRange({ minX, minY: 6579000, maxX: minX + span, maxY: 6579100 }, 10);
+    expect(range.minCol).toBe(900);
+    expect(range.maxCol).toBe(900);
+  });
+
+  it('chooses the finest zoom that fits the pixel budget', () => {
+    // 1000 m at 1 m/px (level 12) is 1000 px; level 13 would be 2000 px
+    expect(chooseZoom(BBOX, 1024)).toBe(12);
+    expect(chooseZoom(BBOX, 1024, 9)).toBe(9);
+  });
+});
+
+describe('stitchTiles', () => {
+  it('mosaics tiles and crops to the bbox', async () => {
+    const range = tileRange(BBOX, 12);
+    const tile = await sharp({ create: { width: 256, height: 256, channels: 4, background: '#ff0000' } })
+      .png()
+      .toBuffer();
+    const tiles = tilesInRange(range).map((address, i) => ({ tile: address, image: i === 0 ? null : tile }));
+
+    const image = await stitchTiles(range, tiles, BBOX);
+    expect(image.width).toBe(1000);
+    expect(image.height).toBe(1000);
+
+    const metadata = await sharp(image.png).metadata();
+    expect(metadata.format).toBe('png');
+    expect(metadata.width).toBe(1000);
+  });
+});